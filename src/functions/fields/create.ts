@@ -1,29 +1,40 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { baseMiddleware, authMiddleware } from '@/shared/middleware';
 import { createSuccessResponse, createValidationErrorResponse, createNotFoundResponse } from '@/shared/utils/response';
-import { FieldsRepository, TemplatesRepository } from '@/shared/database';
+import {
+  validateRequestBody,
+  createFieldSchema,
+  getChoiceConfigError,
+  getComputedConfigError,
+  getComputedCycleError,
+  getAdvancedSettingsError,
+  FIELD_STYLE_VERSION,
+} from '@/shared/utils/validation';
+import { FieldsRepository, TemplatesRepository, UploadedFilesRepository } from '@/shared/database';
+
+interface AuthenticatedContext extends Context {
+  user: {
+    userId: string;
+    email: string;
+  };
+}
 
 /**
  * Create a new template field
  */
 const createFieldHandler = async (
   event: APIGatewayProxyEvent,
-  context: Context
+  context: AuthenticatedContext
 ): Promise<APIGatewayProxyResult> => {
-  // Get authenticated user from context (added by authMiddleware)
-  const user = (context as any).user;
+  const user = context.user;
 
-  // Parse request body
-  if (!event.body) {
-    return createValidationErrorResponse('Request body is required');
+  // Validate request body
+  const validation = validateRequestBody(event.body, createFieldSchema);
+  if (!validation.success) {
+    return createValidationErrorResponse(validation.error);
   }
 
-  let fieldData;
-  try {
-    fieldData = JSON.parse(event.body);
-  } catch (error) {
-    return createValidationErrorResponse('Invalid JSON in request body');
-  }
+  const fieldData = validation.data;
 
   try {
     // Verify the template exists and belongs to the user
@@ -34,13 +45,51 @@ const createFieldHandler = async (
       return createNotFoundResponse('Template');
     }
 
-    // Create field with default style values
+    // A QR code logo may only reference the user's own uploaded image
+    if (fieldData.qrcodeConfig?.logo) {
+      const uploadedFilesRepo = new UploadedFilesRepository();
+      const logo = await uploadedFilesRepo.findByUserAndId(user.userId, fieldData.qrcodeConfig.logo.fileId);
+      if (!logo || logo.uploadStatus !== 'COMPLETED') {
+        return createValidationErrorResponse('QR code logo file was not found');
+      }
+    }
+
+    // Radio and dropdown fields choose from their own options
+    const choiceError = getChoiceConfigError(fieldData.type, fieldData.choiceConfig);
+    if (choiceError) {
+      return createValidationErrorResponse(choiceError);
+    }
+
+    // Computed fields are checked with the template's other computed fields, so a cycle is refused when saved
+    const computedError = getComputedConfigError(fieldData.type, fieldData.computedConfig);
+    if (computedError) {
+      return createValidationErrorResponse(computedError);
+    }
+
     const fieldsRepo = new FieldsRepository();
+    if (fieldData.type === 'computed') {
+      const templateFields = await fieldsRepo.findByTemplateId(fieldData.templateId);
+      const cycleError = getComputedCycleError([
+        ...templateFields,
+        { name: fieldData.name, type: fieldData.type, properties: { computedConfig: fieldData.computedConfig } },
+      ]);
+      if (cycleError) {
+        return createValidationErrorResponse(cycleError);
+      }
+    }
+
+    // Conditions are parsed now, so a broken one never reaches generation
+    const advancedError = getAdvancedSettingsError(fieldData.advanced);
+    if (advancedError) {
+      return createValidationErrorResponse(advancedError);
+    }
+
+    // Create field with default style values
     const defaultStyle = {
       fontFamily: 'Arial',
       fontSize: 12,
       textColor: '#000000',
-      backgroundColor: '#FFFFFF',
+      backgroundColor: 'transparent',
       textAlign: 'left' as const,
       bold: false,
       italic: false,
@@ -59,15 +108,25 @@ const createFieldHandler = async (
         width: fieldData.size.width,
         height: fieldData.size.height,
         page: fieldData.page,
+        rotation: fieldData.position.rotation,
+        rotationOrigin: fieldData.position.rotationOrigin,
       },
       properties: {
-        style: fieldData.style ? { ...defaultStyle, ...fieldData.style } : defaultStyle,
+        style: { ...defaultStyle, ...fieldData.style, version: FIELD_STYLE_VERSION },
         defaultValue: fieldData.defaultValue,
         placeholder: fieldData.placeholder,
         isRequired: fieldData.isRequired,
         isReadonly: fieldData.isReadonly,
         order: fieldData.order,
         tableConfig: fieldData.tableConfig,
+        barcodeConfig: fieldData.barcodeConfig,
+        qrcodeConfig: fieldData.qrcodeConfig,
+        imageConfig: fieldData.imageConfig,
+        signatureConfig: fieldData.signatureConfig,
+        choiceConfig: fieldData.choiceConfig,
+        computedConfig: fieldData.computedConfig,
+        advanced: fieldData.advanced,
+        text: fieldData.text,
       },
       validation: fieldData.validation,
     });
@@ -1,18 +1,33 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { baseMiddleware, authMiddleware } from '@/shared/middleware';
 import { createSuccessResponse, createNotFoundResponse, createValidationErrorResponse } from '@/shared/utils/response';
-import { validateRequestBody, validatePathParameters, updateFieldSchema } from '@/shared/utils/validation';
-import { FieldsRepository } from '@/shared/database';
+import {
+  validateRequestBody,
+  validatePathParameters,
+  updateFieldSchema,
+  getChoiceConfigError,
+  getComputedConfigError,
+  getComputedCycleError,
+  getAdvancedSettingsError,
+  upgradeStoredStyle,
+} from '@/shared/utils/validation';
+import { FieldsRepository, UploadedFilesRepository } from '@/shared/database';
+
+interface AuthenticatedContext extends Context {
+  user: {
+    userId: string;
+    email: string;
+  };
+}
 
 /**
  * Update a template field
  */
 const updateFieldHandler = async (
   event: APIGatewayProxyEvent,
-  context: Context
+  context: AuthenticatedContext
 ): Promise<APIGatewayProxyResult> => {
-  // Get authenticated user from context (added by authMiddleware)
-  const user = (context as any).user;
+  const user = context.user;
 
   // Validate path parameters
   const pathValidation = validatePathParameters(event.pathParameters, ['fieldId']);
@@ -39,8 +54,88 @@ const updateFieldHandler = async (
       return createNotFoundResponse('Field');
     }
 
+    // A QR code logo may only reference the user's own uploaded image
+    if (updateData.qrcodeConfig?.logo) {
+      const uploadedFilesRepo = new UploadedFilesRepository();
+      const logo = await uploadedFilesRepo.findByUserAndId(user.userId, updateData.qrcodeConfig.logo.fileId);
+      if (!logo || logo.uploadStatus !== 'COMPLETED') {
+        return createValidationErrorResponse('QR code logo file was not found');
+      }
+    }
+
+    // A field that is or becomes a radio or dropdown field must keep valid options
+    if (updateData.type || updateData.choiceConfig) {
+      const choiceError = getChoiceConfigError(
+        updateData.type ?? existingField.type,
+        updateData.choiceConfig ?? existingField.properties?.['choiceConfig'] as unknown
+      );
+      if (choiceError) {
+        return createValidationErrorResponse(choiceError);
+      }
+    }
+
+    // A field that is or becomes a computed field needs an expression that does not make a cycle
+    // with the template's other computed fields
+    const type = updateData.type ?? existingField.type;
+    if (type === 'computed' && (updateData.type || updateData.name || updateData.computedConfig)) {
+      const computedConfig: unknown = updateData.computedConfig ?? existingField.properties?.['computedConfig'];
+      const computedError = getComputedConfigError(type, computedConfig);
+      if (computedError) {
+        return createValidationErrorResponse(computedError);
+      }
+
+      const templateFields = await fieldsRepo.findByTemplateId(existingField.templateId);
+      const cycleError = getComputedCycleError([
+        ...templateFields.filter(field => field.id !== fieldId),
+        { name: updateData.name ?? existingField.name, type, properties: { computedConfig } },
+      ]);
+      if (cycleError) {
+        return createValidationErrorResponse(cycleError);
+      }
+    }
+
+    // Advanced settings are merged, so a field made conditional must have, or already have, a condition
+    const mergedAdvanced = updateData.advanced && {
+      ...existingField.properties?.['advanced'] as Record<string, unknown> | undefined,
+      ...updateData.advanced,
+    };
+    const advancedError = getAdvancedSettingsError(mergedAdvanced);
+    if (advancedError) {
+      return createValidationErrorResponse(advancedError);
+    }
+
     // Transform updateData to match entity structure
-    const transformedUpdateData: any = { ...updateData };
+    const {
+      style,
+      tableConfig,
+      barcodeConfig,
+      qrcodeConfig,
+      imageConfig,
+      signatureConfig,
+      choiceConfig,
+      computedConfig,
+      advanced,
+      text,
+      ...fieldUpdates
+    } = updateData;
+    const transformedUpdateData: any = { ...fieldUpdates };
+
+    // Rendering settings live in the field properties, where the generator reads them
+    if (style || tableConfig || barcodeConfig || qrcodeConfig || imageConfig || signatureConfig || choiceConfig || computedConfig || advanced || text !== undefined) {
+      transformedUpdateData.properties = {
+        ...existingField.properties,
+        ...(style && { style: { ...upgradeStoredStyle(existingField.properties?.['style'] as Record<string, unknown> | undefined), ...style } }),
+        ...(tableConfig && { tableConfig }),
+        ...(barcodeConfig && { barcodeConfig }),
+        ...(qrcodeConfig && { qrcodeConfig }),
+        ...(imageConfig && { imageConfig }),
+        ...(signatureConfig && { signatureConfig }),
+        ...(choiceConfig && { choiceConfig }),
+        ...(computedConfig && { computedConfig }),
+        ...(mergedAdvanced && { advanced: mergedAdvanced }),
+        ...(text !== undefined && { text }),
+      };
+    }
     
     // If position and size are provided separately, combine them
     if (updateData.position && updateData.size) {
@@ -50,6 +145,8 @@ const updateFieldHandler = async (
         width: updateData.size.width,
         height: updateData.size.height,
         page: existingField.position.page, // Keep existing page
+        rotation: updateData.position.rotation ?? existingField.position.rotation,
+        rotationOrigin: updateData.position.rotationOrigin ?? existingField.position.rotationOrigin,
       };
       delete transformedUpdateData.size; // Remove size as it's now in position
     }
@@ -0,0 +1,100 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { StatusCodes } from 'http-status-codes';
+import { baseMiddleware, loggingMiddleware, authMiddleware } from '@/shared/middleware';
+import {
+  createSuccessResponse,
+  createNotFoundResponse,
+  createValidationErrorResponse
+} from '@/shared/utils/response';
+import { validateRequestBody } from '@/shared/utils/validation';
+import { BulkPDFGenerationRequestSchema, toPDFGenerationOptions } from '@/shared/pdf/schemas';
+import { TemplatesRepository } from '@/shared/database';
+import { bulkPdfService, BULK_SYNC_MAX_RECORDS } from '@/shared/services/bulk-pdf-service';
+import { generatedPdfService } from '@/shared/services/generated-pdf-service';
+
+interface AuthenticatedContext extends Context {
+  user: {
+    userId: string;
+    email: string;
+  };
+}
+
+/**
+ * Generate one PDF per data record from a single template
+ */
+const generateBulkPdfHandler = async (
+  event: APIGatewayProxyEvent,
+  context: AuthenticatedContext
+): Promise<APIGatewayProxyResult> => {
+  const user = context.user;
+
+  // Validate request body
+  const validation = validateRequestBody(event.body, BulkPDFGenerationRequestSchema);
+  if (!validation.success) {
+    return createValidationErrorResponse(validation.error);
+  }
+
+  const { templateId, dataArray, options, batchOptions, mode } = validation.data;
+
+  try {
+    // Verify the template exists and the user owns it or it is public
+    const templatesRepo = new TemplatesRepository();
+    const template = await templatesRepo.findById(templateId);
+    if (!template || (template.userId !== user.userId && !template.isPublic)) {
+      return createNotFoundResponse('Template');
+    }
+
+    // Files referenced by the options must belong to the caller
+    const generationOptions = toPDFGenerationOptions(options);
+    if (await generatedPdfService.findInaccessibleFile(user.userId, generationOptions)) {
+      return createNotFoundResponse('Watermark image');
+    }
+
+    const input = {
+      userId: user.userId,
+      template,
+      dataArray,
+      options: generationOptions,
+      batchOptions,
+    };
+
+    // Job mode: the worker renders the batch into a ZIP archive. Jobs carry their options on the queue,
+    // where passwords must not go.
+    if (mode === 'async') {
+      if (generationOptions.security) {
+        return createValidationErrorResponse('Security options are only supported for synchronous generation');
+      }
+
+      const job = await bulkPdfService.enqueue(input);
+
+      return createSuccessResponse({
+        jobId: job.id,
+        status: job.status,
+        totalRequests: dataArray.length,
+        statusUrl: `/pdf/jobs/${job.id}`,
+        createdAt: job.createdAt,
+      }, 'Bulk PDF generation job queued', StatusCodes.ACCEPTED);
+    }
+
+    if (dataArray.length > BULK_SYNC_MAX_RECORDS) {
+      return createValidationErrorResponse(
+        `Synchronous bulk generation is limited to ${BULK_SYNC_MAX_RECORDS} records; use "mode": "async" for larger batches`
+      );
+    }
+
+    const result = await bulkPdfService.generate(input);
+
+    return createSuccessResponse(
+      result,
+      result.success ? 'Bulk PDF generation completed' : 'Bulk PDF generation completed with failures'
+    );
+
+  } catch (error) {
+    console.error('Bulk PDF generation error:', error);
+    throw error;
+  }
+};
+
+export const main = baseMiddleware(generateBulkPdfHandler)
+  .use(authMiddleware)
+  .use(loggingMiddleware);
@@ -1,10 +1,16 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { StatusCodes } from 'http-status-codes';
 import { baseMiddleware, loggingMiddleware, authMiddleware } from '@/shared/middleware';
-import { 
-  createSuccessResponse, 
-  createValidationErrorResponse 
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundResponse,
+  createValidationErrorResponse
 } from '@/shared/utils/response';
 import { validateRequestBody, generatePdfSchema } from '@/shared/utils/validation';
+import { PDFGenerationRequestSchema, toPDFGenerationOptions } from '@/shared/pdf/schemas';
+import { TemplatesRepository } from '@/shared/database';
+import { generatedPdfService } from '@/shared/services/generated-pdf-service';
 
 interface AuthenticatedContext extends Context {
   user: {
@@ -13,30 +19,109 @@ interface AuthenticatedContext extends Context {
   };
 }
 
+// Rendering options (metadata, watermark, security, digital signature) share the generator's request schema
+const generateRequestSchema = generatePdfSchema.extend({
+  options: PDFGenerationRequestSchema.shape.options.optional(),
+});
+
 const generatePdfHandler = async (
   event: APIGatewayProxyEvent,
-  _context: AuthenticatedContext
+  context: AuthenticatedContext
 ): Promise<APIGatewayProxyResult> => {
   try {
+    const user = context.user;
+
     // Validate request body
-    const validation = validateRequestBody(event.body, generatePdfSchema);
+    const validation = validateRequestBody(event.body, generateRequestSchema);
     if (!validation.success) {
       return createValidationErrorResponse(validation.error);
     }
 
-    const { templateId, fieldValues, outputFormat } = validation.data;
+    const { templateId, fieldValues, outputFormat, imageOptions, mode } = validation.data;
+    const options = toPDFGenerationOptions(validation.data.options);
+
+    // Images cannot carry PDF encryption, so protected documents are PDF-only
+    if (options.security && outputFormat !== 'pdf') {
+      return createValidationErrorResponse('Security options are only supported for PDF output');
+    }
+
+    // Likewise a digital signature only exists in the PDF itself
+    if (options.digitalSignature && outputFormat !== 'pdf') {
+      return createValidationErrorResponse('Digital signatures are only supported for PDF output');
+    }
+
+    // Jobs carry their options on the queue, where passwords must not go
+    if (options.security && mode === 'async') {
+      return createValidationErrorResponse('Security options are only supported for synchronous generation');
+    }
+
+    // PNG/JPEG output renders the PDF first and rasterizes the requested pages
+    const raster = outputFormat === 'pdf'
+      ? undefined
+      : { format: outputFormat, ...imageOptions };
 
-    // For now, return a simple success response indicating PDF generation would happen
-    // TODO: Implement actual PDF generation with template and field values
-    const responseData = {
-      templateId,
+    // Verify the template exists and the user owns it or it is public
+    const templatesRepo = new TemplatesRepository();
+    const template = await templatesRepo.findById(templateId);
+    if (!template || (template.userId !== user.userId && !template.isPublic)) {
+      return createNotFoundResponse('Template');
+    }
+
+    // Files referenced by the options must belong to the caller
+    if (await generatedPdfService.findInaccessibleFile(user.userId, options)) {
+      return createNotFoundResponse('Watermark image');
+    }
+
+    // Job mode: return right away and let the worker render the document
+    if (mode === 'async') {
+      const job = await generatedPdfService.enqueueGeneration({
+        userId: user.userId,
+        template,
+        fieldValues,
+        options,
+        raster,
+      });
+
+      return createSuccessResponse({
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/pdf/jobs/${job.id}`,
+        createdAt: job.createdAt,
+      }, 'PDF generation job queued', StatusCodes.ACCEPTED);
+    }
+
+    const { pdf, result, downloadUrl, images } = await generatedPdfService.generateAndStore({
+      userId: user.userId,
+      template,
       fieldValues,
-      outputFormat,
-      message: 'PDF generation endpoint is working. Actual PDF generation to be implemented.',
-      generatedAt: new Date().toISOString(),
-    };
+      options,
+      raster,
+    });
+
+    if (!result.success) {
+      return createErrorResponse(
+        'PDF Generation Failed',
+        result.errors?.[0]?.message || 'PDF generation failed',
+        StatusCodes.UNPROCESSABLE_ENTITY,
+        { pdfId: pdf.id, errors: result.errors }
+      );
+    }
 
-    return createSuccessResponse(responseData, 'PDF generation request processed successfully');
+    return createSuccessResponse({
+      pdf: {
+        id: pdf.id,
+        templateId: pdf.templateId,
+        fileName: pdf.fileName,
+        fileSize: pdf.fileSize,
+        status: pdf.status,
+        outputFormat,
+        createdAt: pdf.createdAt,
+      },
+      downloadUrl,
+      ...(images && { images }),
+      metadata: result.metadata,
+      warnings: result.warnings || [],
+    }, 'PDF generated successfully');
 
   } catch (error) {
     console.error('PDF generation error:', error);
@@ -46,4 +131,4 @@ const generatePdfHandler = async (
 
 export const main = baseMiddleware(generatePdfHandler)
   .use(authMiddleware)
-  .use(loggingMiddleware);
\ No newline at end of file
+  .use(loggingMiddleware);
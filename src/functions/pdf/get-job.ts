@@ -0,0 +1,78 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { baseMiddleware, loggingMiddleware, authMiddleware } from '@/shared/middleware';
+import { createSuccessResponse, createNotFoundResponse, createValidationErrorResponse } from '@/shared/utils/response';
+import { validatePathParameters } from '@/shared/utils/validation';
+import { GeneratedPdfRepository, GenerationJobState } from '@/shared/database';
+import { s3Storage } from '@/shared/storage/s3-client';
+import { generatedPdfService } from '@/shared/services/generated-pdf-service';
+import { ProcessingError, ProcessingWarning } from '@/shared/pdf/types';
+
+interface AuthenticatedContext extends Context {
+  user: {
+    userId: string;
+    email: string;
+  };
+}
+
+/**
+ * Get the status of a PDF generation job
+ */
+const getJobHandler = async (
+  event: APIGatewayProxyEvent,
+  context: AuthenticatedContext
+): Promise<APIGatewayProxyResult> => {
+  const user = context.user;
+
+  // Validate path parameters
+  const pathValidation = validatePathParameters(event.pathParameters, ['jobId']);
+  if (!pathValidation.success) {
+    return createValidationErrorResponse(pathValidation.error);
+  }
+
+  const jobId = pathValidation.data['jobId'] as string;
+
+  try {
+    const generatedPdfsRepo = new GeneratedPdfRepository();
+    const pdf = await generatedPdfsRepo.findByUserAndId(user.userId, jobId);
+    if (!pdf || pdf.status === 'DELETED') {
+      return createNotFoundResponse('Job');
+    }
+
+    const job = (pdf.metadata['job'] || {}) as Partial<GenerationJobState>;
+    const downloadUrl = pdf.status === 'COMPLETED'
+      ? await s3Storage.generateDownloadUrl(pdf.s3Key)
+      : undefined;
+
+    // PNG/JPEG jobs store one object per page
+    const images = pdf.status === 'COMPLETED'
+      ? await generatedPdfService.getImageDownloads(pdf)
+      : undefined;
+
+    return createSuccessResponse({
+      jobId: pdf.id,
+      templateId: pdf.templateId,
+      status: pdf.status,
+      outputFormat: pdf.metadata['outputFormat'] as string | undefined,
+      stage: job.stage,
+      progress: job.progress ?? 0,
+      queuedAt: job.queuedAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      fileName: pdf.fileName,
+      fileSize: pdf.fileSize,
+      errors: (pdf.metadata['errors'] as ProcessingError[] | undefined) || [],
+      warnings: (pdf.metadata['warnings'] as ProcessingWarning[] | undefined) || [],
+      ...(pdf.metadata['bulk'] && { bulk: pdf.metadata['bulk'] as Record<string, unknown> }),
+      downloadUrl,
+      ...(images && { images }),
+    }, 'Job status retrieved successfully');
+
+  } catch (error) {
+    console.error('Get job error:', error);
+    throw error;
+  }
+};
+
+export const main = baseMiddleware(getJobHandler)
+  .use(authMiddleware)
+  .use(loggingMiddleware);
@@ -0,0 +1,421 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { PutCommand, GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { PDFDocument } from 'pdf-lib';
+import JSZip from 'jszip';
+import { v5 as uuidv5 } from 'uuid';
+import { dynamoDBClient } from '@/shared/database/config';
+import { s3Client, BUCKET_NAME } from '@/shared/storage/s3-client';
+import { CognitoAuthService } from '@/shared/auth/cognito-auth';
+import {
+  TemplateRepository,
+  FieldRepository,
+  UploadedFileRepository,
+  UsersRepository,
+  GeneratedPdfRepository,
+} from '@/shared/database';
+import { generatedPdfService } from '@/shared/services/generated-pdf-service';
+import { BULK_JOB_CHUNK_SIZE } from '@/shared/services/bulk-pdf-service';
+import { InProcessJobQueue, GenerationJobMessage } from '@/shared/queue/job-queue';
+import { main as generateMain } from './generate';
+import { main as generateBulkMain } from './generate-bulk';
+import { main as getJobMain } from './get-job';
+
+/**
+ * Job flow without AWS: POST /pdf/generate in job mode, the worker consuming the in-process queue,
+ * then GET /pdf/jobs/{jobId}. DynamoDB and S3 are replaced by in-memory stand-ins below.
+ */
+
+// Every queue the services create delivers its messages to the SQS worker handler
+jest.mock('@/shared/queue/job-queue', () => {
+  const actual = jest.requireActual<typeof import('@/shared/queue/job-queue')>('@/shared/queue/job-queue');
+  const queues: InstanceType<typeof actual.InProcessJobQueue>[] = [];
+
+  return {
+    ...actual,
+    queues,
+    createJobQueue: () => {
+      const queue = new actual.InProcessJobQueue(async (message: GenerationJobMessage) => {
+        const worker = jest.requireActual<typeof import('./worker')>('./worker');
+        const response = await worker.main({
+          Records: [{ messageId: message.pdfId, body: JSON.stringify(message) }],
+        } as Parameters<typeof worker.main>[0]);
+
+        if (response.batchItemFailures.length > 0) {
+          throw new Error(`Worker reported a failure for ${message.pdfId}`);
+        }
+      });
+      queues.push(queue);
+      return queue;
+    },
+  };
+});
+
+const { queues } = jest.requireMock<{ queues: InProcessJobQueue[] }>('@/shared/queue/job-queue');
+
+type ApiHandler = (event: APIGatewayProxyEvent, context: Context) => Promise<APIGatewayProxyResult>;
+type Item = Record<string, unknown>;
+
+const generate = generateMain as ApiHandler;
+const generateBulk = generateBulkMain as ApiHandler;
+const getJob = getJobMain as ApiHandler;
+
+/**
+ * Single-table stand-in covering the expressions the repositories use
+ */
+class InMemoryTable {
+  private items: Item[] = [];
+
+  send(command: unknown): Record<string, unknown> {
+    if (command instanceof PutCommand) {
+      const item = command.input.Item as Item;
+      this.items = this.items.filter((stored) => stored['PK'] !== item['PK'] || stored['SK'] !== item['SK']);
+      this.items.push(structuredClone(item));
+      return {};
+    }
+
+    if (command instanceof GetCommand) {
+      const item = this.findByKey(command.input.Key as Item);
+      return { Item: item && structuredClone(item) };
+    }
+
+    if (command instanceof QueryCommand) {
+      const { KeyConditionExpression = '', ExpressionAttributeValues = {} } = command.input;
+      const conditions = KeyConditionExpression.split(' AND ').map((condition) => {
+        const match = /^(\w+) = (:\w+)$/.exec(condition) || /^begins_with\((\w+), (:\w+)\)$/.exec(condition);
+        if (!match?.[1] || !match[2]) {
+          throw new Error(`Unsupported key condition: ${condition}`);
+        }
+        return { attribute: match[1], value: ExpressionAttributeValues[match[2]] as string, prefix: condition.startsWith('begins_with') };
+      });
+
+      const items = this.items.filter((item) => conditions.every(({ attribute, value, prefix }) => {
+        const stored = item[attribute];
+        return typeof stored === 'string' && (prefix ? stored.startsWith(value) : stored === value);
+      }));
+      return { Items: items.map((item) => structuredClone(item)) };
+    }
+
+    if (command instanceof UpdateCommand) {
+      const { Key, UpdateExpression = '', ExpressionAttributeNames = {}, ExpressionAttributeValues = {} } = command.input;
+      const item = this.findByKey(Key as Item);
+      if (!item) {
+        throw new Error('Item to update does not exist');
+      }
+
+      for (const assignment of UpdateExpression.replace(/^SET /, '').split(', ')) {
+        const [name = '', value = ''] = assignment.split(' = ');
+        item[ExpressionAttributeNames[name] ?? name] = structuredClone(ExpressionAttributeValues[value] as unknown);
+      }
+      return { Attributes: structuredClone(item) };
+    }
+
+    throw new Error(`Unsupported DynamoDB command: ${(command as object).constructor.name}`);
+  }
+
+  count(attribute: string, prefix: string): number {
+    return this.items.filter((item) => typeof item[attribute] === 'string' && item[attribute].startsWith(prefix)).length;
+  }
+
+  private findByKey(key: Item): Item | undefined {
+    return this.items.find((item) => item['PK'] === key['PK'] && item['SK'] === key['SK']);
+  }
+}
+
+/**
+ * Object store stand-in for the commands the storage service and generator send
+ */
+class InMemoryBucket {
+  objects = new Map<string, Uint8Array>();
+
+  send(command: unknown): Record<string, unknown> {
+    if (command instanceof PutObjectCommand) {
+      const body = command.input.Body;
+      this.objects.set(command.input.Key as string, typeof body === 'string' ? Buffer.from(body) : body as Uint8Array);
+      return {};
+    }
+
+    if (command instanceof GetObjectCommand) {
+      const bytes = this.objects.get(command.input.Key as string);
+      if (!bytes) {
+        throw new Error(`NoSuchKey: ${command.input.Key}`);
+      }
+      return { Body: { transformToWebStream: () => new Blob([bytes]).stream() } };
+    }
+
+    if (command instanceof DeleteObjectCommand) {
+      this.objects.delete(command.input.Key as string);
+      return {};
+    }
+
+    throw new Error(`Unsupported S3 command: ${(command as object).constructor.name}`);
+  }
+}
+
+const table = new InMemoryTable();
+const bucket = new InMemoryBucket();
+
+const context = {
+  getRemainingTimeInMillis: () => 30000,
+} as unknown as Context;
+
+function apiEvent(overrides: Partial<APIGatewayProxyEvent>): APIGatewayProxyEvent {
+  return {
+    headers: {
+      Authorization: 'Bearer test-token',
+      'Content-Type': 'application/json',
+    },
+    body: null,
+    pathParameters: null,
+    queryStringParameters: null,
+    ...overrides,
+  } as APIGatewayProxyEvent;
+}
+
+function parseBody<T>(response: APIGatewayProxyResult): T {
+  return (JSON.parse(response.body) as { data: T }).data;
+}
+
+describe('PDF generation jobs', () => {
+  let templateId: string;
+  let fieldId: string;
+
+  beforeAll(async () => {
+    // Presigned download URLs are signed locally
+    process.env['AWS_ACCESS_KEY_ID'] = 'test';
+    process.env['AWS_SECRET_ACCESS_KEY'] = 'test';
+
+    jest.spyOn(dynamoDBClient, 'send').mockImplementation(((command: unknown) => Promise.resolve(table.send(command))) as never);
+    jest.spyOn(s3Client, 'send').mockImplementation(((command: unknown) => Promise.resolve(bucket.send(command))) as never);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const user = await new UsersRepository().create({
+      email: 'jobs@example.com',
+      passwordHash: 'COGNITO_MANAGED',
+      name: 'Jobs',
+    });
+    jest.spyOn(CognitoAuthService.prototype, 'verifyToken').mockResolvedValue({
+      userId: 'cognito-user',
+      email: user.email,
+      name: user.name,
+      emailVerified: true,
+      status: 'CONFIRMED',
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    });
+
+    const source = await PDFDocument.create();
+    source.addPage([612, 792]);
+    bucket.objects.set('uploads/source.pdf', await source.save());
+
+    const sourceFile = await new UploadedFileRepository().create({
+      userId: user.id,
+      originalFilename: 'source.pdf',
+      storedFilename: 'source.pdf',
+      filePath: 'uploads/source.pdf',
+      s3Bucket: BUCKET_NAME,
+      s3Key: 'uploads/source.pdf',
+      fileSize: 0,
+      mimeType: 'application/pdf',
+      uploadStatus: 'COMPLETED',
+    });
+
+    const template = await new TemplateRepository().create({
+      userId: user.id,
+      name: 'Invoice',
+      category: 'general',
+      originalFileId: sourceFile.id,
+      dimensions: { width: 612, height: 792 },
+      templateData: { pages: [{ width: 612, height: 792, fields: [] }], metadata: {} },
+    });
+    templateId = template.id;
+
+    const field = await new FieldRepository().create({
+      templateId,
+      type: 'text',
+      name: 'customer',
+      label: 'Customer',
+      position: { x: 72, y: 72, width: 200, height: 20, page: 1 },
+    });
+    fieldId = field.id;
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queues the job, renders it in the worker and reports it as completed', async () => {
+    const queued = await generate(apiEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ templateId, fieldValues: { [fieldId]: 'Ada Lovelace' }, mode: 'async' }),
+    }), context);
+
+    expect(queued.statusCode).toBe(202);
+    const { jobId, status, statusUrl } = parseBody<{ jobId: string; status: string; statusUrl: string }>(queued);
+    expect(status).toBe('GENERATING');
+    expect(statusUrl).toBe(`/pdf/jobs/${jobId}`);
+
+    await Promise.all(queues.map((queue) => queue.drain()));
+
+    const response = await getJob(apiEvent({ httpMethod: 'GET', pathParameters: { jobId } }), context);
+
+    expect(response.statusCode).toBe(200);
+    const job = parseBody<Record<string, unknown>>(response);
+    expect(job).toMatchObject({
+      jobId,
+      templateId,
+      status: 'COMPLETED',
+      stage: 'COMPLETED',
+      progress: 100,
+      errors: [],
+    });
+    expect(job['downloadUrl']).toEqual(expect.stringContaining(BUCKET_NAME));
+    expect(job['fileSize']).toBeGreaterThan(0);
+  });
+
+  it('does not show another user\'s job', async () => {
+    const queued = await generate(apiEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ templateId, fieldValues: {}, mode: 'async' }),
+    }), context);
+    const { jobId } = parseBody<{ jobId: string }>(queued);
+    await Promise.all(queues.map((queue) => queue.drain()));
+
+    jest.spyOn(CognitoAuthService.prototype, 'verifyToken').mockResolvedValueOnce({
+      userId: 'someone-else',
+      email: 'someone-else@example.com',
+      emailVerified: true,
+      status: 'CONFIRMED',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    const response = await getJob(apiEvent({ httpMethod: 'GET', pathParameters: { jobId } }), context);
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('renders a bulk job once per record when its message is delivered again', async () => {
+    // Hold the first message back so the test controls its deliveries
+    let message: GenerationJobMessage | undefined;
+    jest.spyOn(InProcessJobQueue.prototype, 'enqueue').mockImplementationOnce((queued) => {
+      message = queued;
+      return Promise.resolve();
+    });
+
+    const queued = await generateBulk(apiEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({
+        templateId,
+        dataArray: ['Ada', 'Grace', 'Edsger'].map((name) => ({ [fieldId]: name })),
+        mode: 'async',
+      }),
+    }), context);
+    expect(queued.statusCode).toBe(202);
+    const { jobId } = parseBody<{ jobId: string }>(queued);
+
+    // An earlier delivery finished the first record before the worker stopped
+    const template = await new TemplateRepository().findById(templateId);
+    const { pdf: first } = await generatedPdfService.generateAndStore({
+      userId: template!.userId,
+      template: template!,
+      fieldValues: { [fieldId]: 'Ada' },
+      id: uuidv5('0', jobId),
+    });
+    const render = jest.spyOn(generatedPdfService, 'generateAndStore');
+    const recordsBefore = table.count('GSI1PK', 'PDF#');
+
+    const worker = jest.requireActual<typeof import('./worker')>('./worker');
+    await worker.main({
+      Records: [{ messageId: jobId, body: JSON.stringify(message) }],
+    } as Parameters<typeof worker.main>[0]);
+    await Promise.all(queues.map((queue) => queue.drain()));
+
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(table.count('GSI1PK', 'PDF#')).toBe(recordsBefore + 2);
+
+    const job = await new GeneratedPdfRepository().findById(jobId);
+    expect(job).toMatchObject({ status: 'COMPLETED' });
+    expect(job!.metadata['bulk']).toMatchObject({ totalRequests: 3, successfulRequests: 3, failedRequests: 0 });
+
+    const archive = await JSZip.loadAsync(bucket.objects.get(job!.s3Key)!);
+    const manifest = JSON.parse(await archive.file('manifest.json')!.async('string')) as {
+      records: Array<{ index: number; pdfId: string; fileName: string }>;
+    };
+    expect(manifest.records.map(({ index }) => index)).toEqual([0, 1, 2]);
+    expect(manifest.records[0]?.pdfId).toBe(first.id);
+    for (const { fileName } of manifest.records) {
+      expect(await archive.file(fileName)!.async('string')).toMatch(/^%PDF-/);
+    }
+
+    // The input and chunk results are removed once the archive is stored
+    expect([...bucket.objects.keys()].filter((key) => key.includes('bulk-input'))).toEqual([]);
+  });
+
+  it('renders a bulk job larger than one chunk across several messages', async () => {
+    const enqueue = jest.spyOn(InProcessJobQueue.prototype, 'enqueue');
+    const total = BULK_JOB_CHUNK_SIZE + 2;
+
+    const queued = await generateBulk(apiEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({
+        templateId,
+        dataArray: Array.from({ length: total }, (_, index) => ({ [fieldId]: `Customer ${index}` })),
+        batchOptions: { concurrent: 10 },
+        mode: 'async',
+      }),
+    }), context);
+    expect(queued.statusCode).toBe(202);
+    const { jobId } = parseBody<{ jobId: string }>(queued);
+
+    await Promise.all(queues.map((queue) => queue.drain()));
+
+    const offsets = enqueue.mock.calls
+      .map(([message]) => message)
+      .filter((message) => message.pdfId === jobId)
+      .map((message) => message.offset);
+    expect(offsets).toEqual([0, BULK_JOB_CHUNK_SIZE]);
+    enqueue.mockRestore();
+
+    const job = await new GeneratedPdfRepository().findById(jobId);
+    expect(job).toMatchObject({ status: 'COMPLETED' });
+    expect(job!.metadata['bulk']).toMatchObject({ totalRequests: total, successfulRequests: total, failedRequests: 0 });
+
+    const archive = await JSZip.loadAsync(bucket.objects.get(job!.s3Key)!);
+    const manifest = JSON.parse(await archive.file('manifest.json')!.async('string')) as {
+      records: Array<{ index: number; success: boolean }>;
+    };
+    expect(manifest.records.map(({ index }) => index)).toEqual(Array.from({ length: total }, (_, index) => index));
+    expect(Object.keys(archive.files)).toHaveLength(total + 1);
+    expect([...bucket.objects.keys()].filter((key) => key.includes('bulk-input'))).toEqual([]);
+  });
+});
+
+describe('createJobQueue', () => {
+  const { createJobQueue } = jest.requireActual<typeof import('@/shared/queue/job-queue')>('@/shared/queue/job-queue');
+  const environment = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  it('does not run jobs in-process inside Lambda without a queue URL', async () => {
+    delete process.env['PDF_JOBS_QUEUE_URL'];
+    delete process.env['JOB_QUEUE_DRIVER'];
+    process.env['AWS_LAMBDA_FUNCTION_NAME'] = 'processPdfJob';
+    const handler = jest.fn(() => Promise.resolve());
+
+    const queue = createJobQueue(handler);
+
+    expect(queue).not.toBeInstanceOf(InProcessJobQueue);
+    await expect(queue.enqueue({ pdfId: 'job' })).rejects.toThrow('PDF_JOBS_QUEUE_URL is not set');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('runs jobs in-process inside Lambda when the local driver is chosen', () => {
+    delete process.env['PDF_JOBS_QUEUE_URL'];
+    process.env['JOB_QUEUE_DRIVER'] = 'local';
+    process.env['AWS_LAMBDA_FUNCTION_NAME'] = 'processPdfJob';
+
+    expect(createJobQueue(() => Promise.resolve())).toBeInstanceOf(InProcessJobQueue);
+  });
+});
@@ -0,0 +1,30 @@
+import { SQSEvent, SQSBatchResponse } from 'aws-lambda';
+import { generatedPdfService } from '@/shared/services/generated-pdf-service';
+import { bulkPdfService } from '@/shared/services/bulk-pdf-service';
+import { GenerationJobMessage } from '@/shared/queue/job-queue';
+
+/**
+ * PDF generation worker (SQS consumer)
+ * Failed messages are reported individually so the rest of the batch is not retried
+ */
+export const main = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  const batchItemFailures: SQSBatchResponse['batchItemFailures'] = [];
+
+  for (const record of event.Records) {
+    try {
+      const message = JSON.parse(record.body) as GenerationJobMessage;
+      console.log('Processing generation job:', { pdfId: message.pdfId, messageId: record.messageId });
+
+      if (message.type === 'bulk') {
+        await bulkPdfService.processJob(message);
+      } else {
+        await generatedPdfService.processJob(message);
+      }
+    } catch (error) {
+      console.error('Generation worker error:', { messageId: record.messageId, error });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  return { batchItemFailures };
+};
@@ -5,15 +5,22 @@ import { createSuccessResponse, createValidationErrorResponse, createNotFoundRes
 import { validateRequestBody, createTemplateSchema } from '@/shared/utils/validation';
 import { TemplatesRepository } from '@/shared/database';
 import { UploadedFilesRepository } from '@/shared/database';
+import { fontResourceService } from '@/shared/services/font-resource-service';
+
+interface AuthenticatedContext extends Context {
+  user: {
+    userId: string;
+    email: string;
+  };
+}
 /**
  * Create a new PDF template
  */
 const createTemplateHandler = async (
   event: APIGatewayProxyEvent,
-  context: Context
+  context: AuthenticatedContext
 ): Promise<APIGatewayProxyResult> => {
-  // Get authenticated user from context (added by authMiddleware)
-  const user = (context as any).user;
+  const user = context.user;
 
   // Validate request body
   const validation = validateRequestBody(event.body, createTemplateSchema);
@@ -36,6 +43,14 @@ const createTemplateHandler = async (
       return createValidationErrorResponse('File upload is not completed');
     }
 
+    // Custom fonts may only reference the user's own files
+    const fontError = templateData.fonts
+      ? await fontResourceService.findInaccessibleSource(user.userId, templateData.fonts)
+      : null;
+    if (fontError) {
+      return createValidationErrorResponse(fontError);
+    }
+
     // Create template
     const templatesRepo = new TemplatesRepository();
     const template = await templatesRepo.create({
@@ -51,7 +66,10 @@ const createTemplateHandler = async (
       tags: templateData.tags,
       templateData: {
         pages: [], // Will be populated when fields are added
-        metadata: templateData.metadata || {},
+        metadata: {
+          ...templateData.metadata,
+          ...(templateData.fonts && { fonts: templateData.fonts }),
+        },
       },
       metadata: {
         fileSize: Number(uploadedFile.fileSize),
@@ -4,16 +4,23 @@ import { authMiddleware } from '@/shared/middleware';
 import { createSuccessResponse, createValidationErrorResponse, createNotFoundResponse } from '@/shared/utils/response';
 import { validateRequestBody, updateTemplateSchema } from '@/shared/utils/validation';
 import { TemplatesRepository } from '@/shared/database';
+import { fontResourceService } from '@/shared/services/font-resource-service';
+
+interface AuthenticatedContext extends Context {
+  user: {
+    userId: string;
+    email: string;
+  };
+}
 
 /**
  * Update a template
  */
 const updateTemplateHandler = async (
   event: APIGatewayProxyEvent,
-  context: Context
+  context: AuthenticatedContext
 ): Promise<APIGatewayProxyResult> => {
-  // Get authenticated user from context (added by authMiddleware)
-  const user = (context as any).user;
+  const user = context.user;
 
   // Get template ID from path
   const templateId = event.pathParameters?.['templateId'];
@@ -27,7 +34,7 @@ const updateTemplateHandler = async (
     return createValidationErrorResponse(validation.error);
   }
 
-  const updateData = validation.data;
+  const { fonts, ...updateData } = validation.data;
 
   try {
     const templatesRepo = new TemplatesRepository();
@@ -38,8 +45,24 @@ const updateTemplateHandler = async (
       return createNotFoundResponse('Template');
     }
 
+    // Custom fonts live in templateData.metadata and may only reference the user's own files
+    if (fonts) {
+      const fontError = await fontResourceService.findInaccessibleSource(user.userId, fonts);
+      if (fontError) {
+        return createValidationErrorResponse(fontError);
+      }
+    }
+
     // Update the template
-    const updatedTemplate = await templatesRepo.update(templateId, updateData);
+    const updatedTemplate = await templatesRepo.update(templateId, {
+      ...updateData,
+      ...(fonts && {
+        templateData: {
+          ...existingTemplate.templateData,
+          metadata: { ...existingTemplate.templateData?.metadata, fonts },
+        },
+      }),
+    });
     
     if (!updatedTemplate) {
       return createNotFoundResponse('Template');
@@ -12,7 +12,12 @@ const client = new DynamoDBClient({
 });
 
 // Create document client for easier operations
-export const dynamoDBClient = DynamoDBDocumentClient.from(client);
+export const dynamoDBClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    // Optional attributes (e.g. in metadata maps) may be undefined
+    removeUndefinedValues: true,
+  },
+});
 
 // Table configuration
 export const TABLE_NAME = process.env['MAIN_TABLE'] || 'pdf-studio-dev';
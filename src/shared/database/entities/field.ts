@@ -9,7 +9,7 @@ export interface Field {
   GSI1SK: string; // ${type}#${createdAt}
   id: string;
   templateId: string;
-  type: 'text' | 'email' | 'image' | 'signature' | 'checkbox' | 'date' | 'number' | 'table' | 'label' | 'QRCode' | 'separator';
+  type: 'text' | 'email' | 'image' | 'signature' | 'checkbox' | 'date' | 'number' | 'table' | 'label' | 'QRCode' | 'separator' | 'barcode' | 'radio' | 'dropdown' | 'computed';
   name: string;
   label: string;
   required: boolean;
@@ -19,6 +19,8 @@ export interface Field {
     width: number;
     height: number;
     page: number;
+    rotation?: number; // degrees, counter-clockwise
+    rotationOrigin?: 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | { x: number; y: number };
   };
   properties: Record<string, any>;
   validation?: Record<string, any>;
@@ -29,7 +31,7 @@ export interface Field {
 export interface CreateFieldInput {
   templateId: string;
   userId?: string; // For compatibility with existing functions
-  type: 'text' | 'email' | 'image' | 'signature' | 'checkbox' | 'date' | 'number' | 'table' | 'label' | 'QRCode' | 'separator';
+  type: 'text' | 'email' | 'image' | 'signature' | 'checkbox' | 'date' | 'number' | 'table' | 'label' | 'QRCode' | 'separator' | 'barcode' | 'radio' | 'dropdown' | 'computed';
   name: string;
   label: string;
   required?: boolean;
@@ -39,13 +41,15 @@ export interface CreateFieldInput {
     width: number;
     height: number;
     page: number;
+    rotation?: number; // degrees, counter-clockwise
+    rotationOrigin?: 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | { x: number; y: number };
   };
   properties?: Record<string, any>;
   validation?: Record<string, any>;
 }
 
 export interface UpdateFieldInput {
-  type?: 'text' | 'email' | 'image' | 'signature' | 'checkbox' | 'date' | 'number' | 'table' | 'label' | 'QRCode' | 'separator';
+  type?: 'text' | 'email' | 'image' | 'signature' | 'checkbox' | 'date' | 'number' | 'table' | 'label' | 'QRCode' | 'separator' | 'barcode' | 'radio' | 'dropdown' | 'computed';
   name?: string;
   label?: string;
   required?: boolean;
@@ -55,6 +59,8 @@ export interface UpdateFieldInput {
     width: number;
     height: number;
     page: number;
+    rotation?: number; // degrees, counter-clockwise
+    rotationOrigin?: 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | { x: number; y: number };
   };
   properties?: Record<string, any>;
   validation?: Record<string, any>;
@@ -22,6 +22,7 @@ export interface GeneratedPdf {
 }
 
 export interface CreateGeneratedPdfInput {
+  id?: string; // a known ID replaces the record with that ID, so a retried write does not add another
   userId: string;
   templateId: string;
   fileName: string;
@@ -32,7 +33,33 @@ export interface CreateGeneratedPdfInput {
 }
 
 export interface UpdateGeneratedPdfInput {
+  s3Key?: string;
   fileSize?: number;
   status?: 'GENERATING' | 'COMPLETED' | 'FAILED' | 'DELETED';
   metadata?: Record<string, any>;
 }
+
+export type GenerationJobStage = 'QUEUED' | 'RENDERING' | 'UPLOADING' | 'COMPLETED' | 'FAILED';
+
+/**
+ * Asynchronous job progress, stored under GeneratedPdf.metadata.job
+ */
+export interface GenerationJobState {
+  mode: 'sync' | 'async';
+  stage: GenerationJobStage;
+  progress: number; // 0-100
+  queuedAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * A rendered page image, stored under GeneratedPdf.metadata.images for PNG/JPEG output
+ */
+export interface GeneratedImage {
+  page: number;
+  s3Key: string;
+  width: number; // pixels
+  height: number; // pixels
+  fileSize: number;
+}
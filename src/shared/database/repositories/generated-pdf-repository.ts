@@ -14,7 +14,7 @@ export class GeneratedPdfRepository {
    * Create a new generated PDF record
    */
   async create(input: CreateGeneratedPdfInput): Promise<GeneratedPdf> {
-    const id = uuidv4();
+    const id = input.id || uuidv4();
     const timestamp = new Date().toISOString();
     
     const generatedPdf: GeneratedPdf = {
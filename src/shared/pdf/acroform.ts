@@ -0,0 +1,380 @@
+/**
+ * AcroForm
+ * Fills the form fields a PDF already has (text, checkbox, radio, dropdown, option list) by name, and optionally
+ * flattens them; adds template fields as form fields recipients can fill in
+ */
+
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFTextField,
+  TextAlignment,
+} from 'pdf-lib';
+import {
+  AcroFormFillOptions,
+  AcroFormFillSummary,
+  Colors,
+  FieldOption,
+  PDFFieldDefinition,
+  ProcessingError,
+  ProcessingWarning,
+} from './types';
+import { DataTransformer, FontManager, PDFGenerationError, NUMBER_FIELD_FORMAT, DATE_FIELD_FORMAT } from './utils';
+
+const CHECKED_VALUES = ['true', 'yes', 'on', '1', 'x', 'checked'];
+const UNCHECKED_VALUES = ['false', 'no', 'off', '0', '', 'unchecked'];
+
+export class AcroFormFiller {
+  /**
+   * Fill form fields from the data. A field takes the value under its full name, either as a key of its own
+   * (`"address.city": ...`) or as a nested path (`{ "address": { "city": ... } }`). Values a field cannot
+   * take are reported as warnings and leave the field unfilled.
+   *
+   * @param usedKeys data keys that template fields read, which are not reported as unmatched
+   */
+  static fill(
+    doc: PDFDocument,
+    data: Record<string, unknown>,
+    options: AcroFormFillOptions = {},
+    usedKeys: string[] = []
+  ): { summary: AcroFormFillSummary; warnings: ProcessingWarning[] } {
+    const form = doc.getForm();
+    const warnings: ProcessingWarning[] = [];
+    const unfilledFields: string[] = [];
+    const fieldNames: string[] = [];
+    let fieldsFilled = 0;
+
+    for (const field of form.getFields()) {
+      const name = field.getName();
+      fieldNames.push(name);
+
+      // Buttons and signature fields hold no data
+      if (!this.isFillable(field)) continue;
+
+      // A name with dots may be a key of its own or a path into the data
+      const own = Object.prototype.hasOwnProperty.call(data, name) ? data[name] : undefined;
+      const value = own ?? DataTransformer.getNestedValue(data, name);
+      if (value === undefined || value === null) {
+        unfilledFields.push(name);
+        continue;
+      }
+
+      try {
+        this.setValue(field, value);
+        fieldsFilled++;
+      } catch (error) {
+        unfilledFields.push(name);
+        warnings.push({
+          code: 'FORM_FIELD_VALUE_INVALID',
+          message: `Form field '${name}' was not filled: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          field: name,
+        });
+      }
+    }
+
+    const unmatchedKeys = Object.keys(data).filter(key =>
+      !usedKeys.includes(key) && !fieldNames.some(name => name === key || name.startsWith(`${key}.`))
+    );
+
+    if (options.flatten) {
+      try {
+        form.flatten();
+      } catch (error) {
+        throw new PDFGenerationError(
+          `Failed to flatten form fields: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'FORM_FLATTEN_ERROR'
+        );
+      }
+    }
+
+    return {
+      summary: { fieldsFilled, unmatchedKeys, unfilledFields, flattened: !!options.flatten },
+      warnings,
+    };
+  }
+
+  private static isFillable(field: PDFField): boolean {
+    return field instanceof PDFTextField
+      || field instanceof PDFCheckBox
+      || field instanceof PDFRadioGroup
+      || field instanceof PDFDropdown
+      || field instanceof PDFOptionList;
+  }
+
+  private static setValue(field: PDFField, value: unknown): void {
+    if (field instanceof PDFTextField) {
+      field.setText(this.toText(value));
+    } else if (field instanceof PDFCheckBox) {
+      if (this.isChecked(value)) {
+        field.check();
+      } else {
+        field.uncheck();
+      }
+    } else if (field instanceof PDFRadioGroup) {
+      const text = this.toText(value);
+      if (text === '') {
+        field.clear();
+      } else {
+        field.select(this.matchOption(field.getOptions(), text));
+      }
+    } else if (field instanceof PDFDropdown) {
+      const values = this.toList(value);
+      // Editable dropdowns (combo boxes) take any text
+      field.select(field.isEditable() ? values[0] ?? '' : values.map(text => this.matchOption(field.getOptions(), text)));
+    } else if (field instanceof PDFOptionList) {
+      const values = this.toList(value).map(text => this.matchOption(field.getOptions(), text));
+      if (values.length > 1 && !field.isMultiselect()) {
+        throw new Error('only one option can be selected');
+      }
+      field.select(values);
+    }
+  }
+
+  /**
+   * Options match exactly, or ignoring case when there is no exact match
+   */
+  private static matchOption(options: string[], value: string): string {
+    const match = options.includes(value)
+      ? value
+      : options.find(option => option.toLowerCase() === value.toLowerCase());
+    if (match === undefined) {
+      throw new Error(`'${value}' is not one of ${options.map(option => `'${option}'`).join(', ')}`);
+    }
+    return match;
+  }
+
+  private static isChecked(value: unknown): boolean {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+
+    const text = String(value).trim().toLowerCase();
+    if (CHECKED_VALUES.includes(text)) return true;
+    if (UNCHECKED_VALUES.includes(text)) return false;
+    throw new Error(`'${String(value)}' is not a checkbox value`);
+  }
+
+  private static toList(value: unknown): string[] {
+    return Array.isArray(value) ? value.map(item => this.toText(item)) : [this.toText(value)];
+  }
+
+  private static toText(value: unknown): string {
+    if (value instanceof Date) {
+      return value.toISOString().slice(0, 10);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.toText(item)).join(', ');
+    }
+    if (typeof value === 'object' && value !== null) {
+      throw new Error('objects cannot be written into a form field');
+    }
+    return String(value);
+  }
+}
+
+const FORM_FIELD_TYPES = ['text', 'multiline-text', 'number', 'date', 'checkbox', 'radio', 'dropdown'];
+
+// pdf-lib does not export its widget appearance options type
+type WidgetAppearance = NonNullable<Parameters<PDFTextField['addToPage']>[1]>;
+
+const TEXT_ALIGNMENTS: Record<string, TextAlignment> = {
+  left: TextAlignment.Left,
+  center: TextAlignment.Center,
+  right: TextAlignment.Right,
+  justify: TextAlignment.Left,
+};
+
+export class AcroFormBuilder {
+  // Radio groups added to each document, by field name, so later buttons join them
+  private static radioGroups = new WeakMap<PDFDocument, Map<string, PDFRadioGroup>>();
+
+  /**
+   * Whether a field can be added as a form field. Widgets cannot be turned to arbitrary angles,
+   * so rotated fields are drawn instead.
+   */
+  static supports(field: PDFFieldDefinition): boolean {
+    return FORM_FIELD_TYPES.includes(field.type) && (field.position.rotation || 0) % 360 === 0;
+  }
+
+  /**
+   * Add a field as a form field named after the field, prefilled with its value and styled by its
+   * font, colours, border and alignment. Reports errors the way FieldProcessor.renderField does.
+   */
+  static async addField(
+    page: PDFPage,
+    field: PDFFieldDefinition,
+    value: unknown,
+    doc: PDFDocument
+  ): Promise<{ errors: ProcessingError[]; warnings: ProcessingWarning[] }> {
+    const errors: ProcessingError[] = [];
+
+    try {
+      // Buttons of a radio group share its name
+      const group = field.type === 'radio' ? this.radioGroups.get(doc)?.get(field.name) : undefined;
+      if (!group && doc.getForm().getFieldMaybe(field.name)) {
+        throw new PDFGenerationError(`The PDF already has a form field named '${field.name}'`, 'FORM_FIELD_NAME_TAKEN');
+      }
+
+      switch (field.type) {
+        case 'checkbox':
+          this.addCheckBox(page, field, value, doc);
+          break;
+
+        case 'radio':
+          this.addRadioButton(page, field, value, doc);
+          break;
+
+        case 'dropdown':
+          await this.addDropdown(page, field, value, doc);
+          break;
+
+        default:
+          await this.addTextField(page, field, value, doc);
+      }
+    } catch (error) {
+      errors.push({
+        code: error instanceof PDFGenerationError ? error.code : 'FORM_FIELD_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        field: field.id,
+        severity: 'error',
+        details: error,
+      });
+    }
+
+    return { errors, warnings: [] };
+  }
+
+  private static async addTextField(page: PDFPage, field: PDFFieldDefinition, value: unknown, doc: PDFDocument): Promise<void> {
+    const textField = doc.getForm().createTextField(field.name);
+    const font = await FontManager.getFont(doc, field.style.font, field.id);
+
+    if (field.type === 'multiline-text') {
+      textField.enableMultiline();
+    }
+    if (field.required) {
+      textField.enableRequired();
+    }
+    textField.setText(this.formatText(field, value));
+    textField.setAlignment(TEXT_ALIGNMENTS[field.style.alignment || 'left'] ?? TextAlignment.Left);
+    textField.addToPage(page, { ...this.getAppearance(field), font });
+    // The font size is part of the default appearance, which the widget brings
+    textField.setFontSize(field.style.font?.size || 12);
+    textField.updateAppearances(font);
+  }
+
+  private static addCheckBox(page: PDFPage, field: PDFFieldDefinition, value: unknown, doc: PDFDocument): void {
+    const checkBox = doc.getForm().createCheckBox(field.name);
+    const size = Math.min(field.dimensions.width, field.dimensions.height);
+
+    if (field.required) {
+      checkBox.enableRequired();
+    }
+    // Like a drawn checkbox: a square with a border
+    checkBox.addToPage(page, { ...this.getAppearance(field, true), width: size, height: size });
+    if (value) {
+      checkBox.check();
+    }
+  }
+
+  /**
+   * Add a radio button. The first button of a name creates the group; buttons after it join it.
+   */
+  private static addRadioButton(page: PDFPage, field: PDFFieldDefinition, value: unknown, doc: PDFDocument): void {
+    if (!field.optionValue) {
+      throw new PDFGenerationError(`Radio field '${field.name}' has no option value`, 'INVALID_FIELD_OPTIONS');
+    }
+
+    let groups = this.radioGroups.get(doc);
+    if (!groups) {
+      groups = new Map();
+      this.radioGroups.set(doc, groups);
+    }
+    let group = groups.get(field.name);
+    if (!group) {
+      group = doc.getForm().createRadioGroup(field.name);
+      groups.set(field.name, group);
+    }
+
+    if (field.required) {
+      group.enableRequired();
+    }
+    group.addOptionToPage(field.optionValue, page, this.getAppearance(field, true));
+    const selected: unknown = value ?? field.defaultValue;
+    if (selected !== undefined && selected !== null && String(selected) === field.optionValue) {
+      group.select(field.optionValue);
+    }
+  }
+
+  /**
+   * Add a dropdown listing the option labels, with the label of the value selected
+   */
+  private static async addDropdown(page: PDFPage, field: PDFFieldDefinition, value: unknown, doc: PDFDocument): Promise<void> {
+    const options = field.options || [];
+    if (options.length === 0) {
+      throw new PDFGenerationError(`Dropdown field '${field.name}' has no options`, 'INVALID_FIELD_OPTIONS');
+    }
+
+    const dropdown = doc.getForm().createDropdown(field.name);
+    const font = await FontManager.getFont(doc, field.style.font, field.id);
+    const label = (option: FieldOption) => option.label ?? option.value;
+
+    if (field.required) {
+      dropdown.enableRequired();
+    }
+    dropdown.addOptions(options.map(label));
+    const selected = options.find(option => option.value === String(value ?? field.defaultValue ?? ''));
+    if (selected) {
+      dropdown.select(label(selected));
+    }
+    dropdown.addToPage(page, { ...this.getAppearance(field), font });
+    dropdown.setFontSize(field.style.font?.size || 12);
+    dropdown.updateAppearances(font);
+  }
+
+  /**
+   * Widget colours and border from the field style. The border is drawn when a border colour or width is set,
+   * and always for checkboxes and radio buttons.
+   */
+  private static getAppearance(field: PDFFieldDefinition, bordered = false): WidgetAppearance {
+    const { style } = field;
+    const borderWidth = style.borderWidth || (style.borderColor || bordered ? 1 : 0);
+
+    return {
+      x: field.position.x,
+      y: field.position.y,
+      ...field.dimensions,
+      textColor: style.color || Colors.BLACK,
+      // pdf-lib adds a white background and black border unless these are given, even as undefined
+      backgroundColor: style.backgroundColor,
+      borderColor: borderWidth > 0 ? style.borderColor || Colors.BLACK : undefined,
+      borderWidth,
+    };
+  }
+
+  /**
+   * Text as the drawn field would show it. Empty fields stay empty so recipients can fill them in.
+   */
+  private static formatText(field: PDFFieldDefinition, value: unknown): string {
+    const text: unknown = value ?? field.defaultValue;
+    if (text === undefined || text === null || text === '') {
+      return '';
+    }
+
+    // Values processData already formatted are kept as they are
+    if (typeof text === 'string') {
+      return text;
+    }
+    if (field.type === 'number') {
+      return String(DataTransformer.transform(text, NUMBER_FIELD_FORMAT));
+    }
+    if (field.type === 'date') {
+      return String(DataTransformer.transform(text, DATE_FIELD_FORMAT));
+    }
+    return String(text);
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Barcode Renderer
+ * Validates barcode values and draws linear and 2D symbologies as vector paths inside a field box
+ */
+
+import { PDFPage, PDFFont, RGB } from 'pdf-lib';
+import * as bwipjs from 'bwip-js';
+import { BarcodeConfig, BarcodeSymbology, Colors } from './types';
+import { PDFGenerationError } from './utils';
+
+// Encoder names for each symbology
+const ENCODERS: Record<BarcodeSymbology, string> = {
+  code128: 'code128',
+  code39: 'code39',
+  ean13: 'ean13',
+  upca: 'upca',
+  itf: 'interleaved2of5',
+  pdf417: 'pdf417',
+  datamatrix: 'datamatrix',
+};
+
+// Quiet zones in modules, on every side of the symbol
+const QUIET_ZONES: Record<BarcodeSymbology, number> = {
+  code128: 10,
+  code39: 10,
+  ean13: 9,
+  upca: 9,
+  itf: 10,
+  pdf417: 2,
+  datamatrix: 1,
+};
+
+const DEFAULT_TEXT_SIZE = 8;
+const CODE39_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+
+export interface BarcodeBox {
+  x: number; // left edge
+  y: number; // bottom edge
+  width: number;
+  height: number;
+}
+
+export interface BarcodeDrawOptions {
+  color?: RGB;
+  font?: PDFFont; // required for human-readable text
+}
+
+interface Bar {
+  x: number; // modules from the left
+  width: number; // modules
+}
+
+// Linear symbols come back as bar/space widths, 2D symbols as a module grid
+type RawSymbol =
+  | { sbs: number[]; bhs: number[]; bbs: number[] }
+  | { pixs: number[]; pixx: number; pixy: number; height: number; width: number };
+
+type EncodedSymbol =
+  | { kind: 'linear'; bars: Bar[]; modules: number }
+  | { kind: 'matrix'; columns: number; rows: number; rowHeight: number; dark: (column: number, row: number) => boolean };
+
+export class BarcodeRenderer {
+  /**
+   * Draw a barcode fitted to the box. The value is validated first and completed with its check digit
+   * where the symbology has one.
+   */
+  static draw(page: PDFPage, value: string, config: BarcodeConfig, box: BarcodeBox, options: BarcodeDrawOptions = {}): void {
+    const data = this.validate(value, config);
+    const symbol = this.encode(data, config);
+    const color = options.color || Colors.BLACK;
+
+    if (symbol.kind === 'matrix') {
+      this.drawMatrix(page, symbol, config.symbology, box, color);
+      return;
+    }
+
+    const showText = config.showText !== false && !!options.font;
+    const textSize = config.textSize ?? DEFAULT_TEXT_SIZE;
+    const textHeight = showText ? textSize * 1.25 : 0;
+    const quietZone = QUIET_ZONES[config.symbology];
+    const moduleWidth = box.width / (symbol.modules + quietZone * 2);
+    const barHeight = Math.max(0, box.height - textHeight);
+    const left = box.x + quietZone * moduleWidth;
+
+    for (const bar of symbol.bars) {
+      page.drawRectangle({
+        x: left + bar.x * moduleWidth,
+        y: box.y + textHeight,
+        width: bar.width * moduleWidth,
+        height: barHeight,
+        color,
+      });
+    }
+
+    if (showText && options.font) {
+      const textWidth = options.font.widthOfTextAtSize(data, textSize);
+      page.drawText(data, {
+        x: box.x + (box.width - textWidth) / 2,
+        y: box.y + textHeight - textSize,
+        size: textSize,
+        font: options.font,
+        color,
+      });
+    }
+  }
+
+  /**
+   * Check a value against the symbology's character set and check digit rules.
+   * Returns the value to encode, with the check digit appended when it was left off.
+   */
+  static validate(value: string, config: BarcodeConfig): string {
+    const data = value.trim();
+    if (!data) {
+      throw this.invalid(config.symbology, 'Barcode value is empty');
+    }
+
+    switch (config.symbology) {
+      case 'ean13':
+        return this.withGtinCheckDigit(data, 12, config.symbology);
+
+      case 'upca':
+        return this.withGtinCheckDigit(data, 11, config.symbology);
+
+      case 'itf':
+        if (!/^\d+$/.test(data)) {
+          throw this.invalid(config.symbology, 'ITF only encodes digits');
+        }
+        // ITF-14 carries a GTIN check digit; other lengths are plain digit pairs
+        if (data.length === 13 || data.length === 14) {
+          return this.withGtinCheckDigit(data, 13, config.symbology);
+        }
+        if (data.length % 2 !== 0) {
+          throw this.invalid(config.symbology, 'ITF needs an even number of digits');
+        }
+        return data;
+
+      case 'code39':
+        if ([...data].some(character => !CODE39_CHARSET.includes(character))) {
+          throw this.invalid(config.symbology, 'Code 39 only encodes digits, upper-case letters, space and - . $ / + %');
+        }
+        return config.checkDigit ? data + this.code39CheckCharacter(data) : data;
+
+      case 'code128':
+        if (!/^[\x20-\x7e]+$/.test(data)) {
+          throw this.invalid(config.symbology, 'Code 128 only encodes printable ASCII characters');
+        }
+        return data;
+
+      default:
+        // 2D symbologies carry Reed-Solomon error correction computed by the encoder
+        return data;
+    }
+  }
+
+  /**
+   * GS1 mod 10 check digit for EAN, UPC and ITF-14 numbers
+   */
+  static gtinCheckDigit(digits: string): number {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      // Weights alternate 3, 1 from the rightmost digit
+      const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+      sum += Number(digits[i]) * weight;
+    }
+    return (10 - (sum % 10)) % 10;
+  }
+
+  private static withGtinCheckDigit(data: string, length: number, symbology: BarcodeSymbology): string {
+    const name = symbology === 'ean13' ? 'EAN-13' : symbology === 'upca' ? 'UPC-A' : 'ITF-14';
+
+    if (!/^\d+$/.test(data) || (data.length !== length && data.length !== length + 1)) {
+      throw this.invalid(symbology, `${name} needs ${length} digits, or ${length + 1} with the check digit`);
+    }
+
+    const expected = this.gtinCheckDigit(data.slice(0, length));
+    if (data.length === length) {
+      return data + expected;
+    }
+
+    if (Number(data[length]) !== expected) {
+      throw this.invalid(symbology, `${name} check digit should be ${expected}, not ${data[length]}`);
+    }
+    return data;
+  }
+
+  private static code39CheckCharacter(data: string): string {
+    const sum = [...data].reduce((total, character) => total + CODE39_CHARSET.indexOf(character), 0);
+    return CODE39_CHARSET[sum % 43]!;
+  }
+
+  private static encode(data: string, config: BarcodeConfig): EncodedSymbol {
+    let encoded: RawSymbol[];
+    try {
+      encoded = bwipjs.raw(ENCODERS[config.symbology], data, {});
+    } catch (error) {
+      // Encoder messages look like "bwipp.ean13badCheckDigit#6915: Incorrect EAN-13 check digit provided"
+      const message = error instanceof Error ? error.message.replace(/^[^:]*:\s*/, '') : 'Unknown error';
+      throw this.invalid(config.symbology, message);
+    }
+
+    const symbol = encoded[0];
+    if (!symbol) {
+      throw this.invalid(config.symbology, 'Value could not be encoded');
+    }
+
+    if ('pixs' in symbol) {
+      // pixy is the symbol height in modules, so PDF417 rows (three modules tall) have fewer rows than pixy
+      const { pixs, pixx, pixy } = symbol;
+      const rows = pixs.length / pixx;
+      return {
+        kind: 'matrix',
+        columns: pixx,
+        rows,
+        rowHeight: pixy / rows,
+        dark: (column, row) => pixs[row * pixx + column] === 1,
+      };
+    }
+
+    // Widths alternate bar, space, bar... starting with a bar
+    const bars: Bar[] = [];
+    let position = 0;
+    symbol.sbs.forEach((width, index) => {
+      if (index % 2 === 0 && width > 0) {
+        bars.push({ x: position, width });
+      }
+      position += width;
+    });
+
+    return { kind: 'linear', bars, modules: position };
+  }
+
+  /**
+   * Draw a 2D symbol centred in the box with square modules.
+   * Dark modules next to each other in a row are merged into one rectangle.
+   */
+  private static drawMatrix(
+    page: PDFPage,
+    symbol: Extract<EncodedSymbol, { kind: 'matrix' }>,
+    symbology: BarcodeSymbology,
+    box: BarcodeBox,
+    color: RGB
+  ): void {
+    const quietZone = QUIET_ZONES[symbology];
+    const { rowHeight } = symbol;
+    const moduleSize = Math.min(
+      box.width / (symbol.columns + quietZone * 2),
+      box.height / (symbol.rows * rowHeight + quietZone * 2)
+    );
+    const width = symbol.columns * moduleSize;
+    const height = symbol.rows * rowHeight * moduleSize;
+    const left = box.x + (box.width - width) / 2;
+    const top = box.y + (box.height + height) / 2;
+
+    for (let row = 0; row < symbol.rows; row++) {
+      let column = 0;
+      while (column < symbol.columns) {
+        if (!symbol.dark(column, row)) {
+          column++;
+          continue;
+        }
+
+        const start = column;
+        while (column < symbol.columns && symbol.dark(column, row)) {
+          column++;
+        }
+
+        page.drawRectangle({
+          x: left + start * moduleSize,
+          y: top - (row + 1) * rowHeight * moduleSize,
+          width: (column - start) * moduleSize,
+          height: rowHeight * moduleSize,
+          color,
+        });
+      }
+    }
+  }
+
+  private static invalid(symbology: BarcodeSymbology, message: string): PDFGenerationError {
+    return new PDFGenerationError(message, 'INVALID_BARCODE', { symbology });
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Computed Fields
+ * Evaluates computed fields, whose values are expressions over other data, such as `sum(items, "amount")`
+ * or `addDays(issueDate, 30)`. A computed field may use other computed fields, so they are evaluated
+ * in dependency order, and fields that depend on each other in a cycle are refused.
+ *
+ * Like the expression evaluator, the module has no dependencies beyond it, so field validation can detect cycles.
+ */
+
+import { ExpressionEvaluator } from './expression';
+
+export interface ComputedDefinition {
+  name: string; // the data path the value is stored under
+  expression: string;
+}
+
+export interface ComputedResult<T extends ComputedDefinition> {
+  data: Record<string, unknown>; // the input data with the computed values added
+  errors: Array<{ definition: T; message: string }>;
+}
+
+// Path segments that would reach an object's prototype instead of its own properties
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+export class ComputedFields {
+  /**
+   * Order definitions so each comes after the computed fields it reads. Definitions that cannot be
+   * ordered, because they are on or depend on a cycle, are returned separately with the cycles found, each as
+   * the names along it with the first repeated at the end.
+   */
+  static order<T extends ComputedDefinition>(definitions: T[]): { ordered: T[]; unresolved: T[]; cycles: string[][] } {
+    const dependencies = definitions.map(definition => this.getDependencies(definition, definitions));
+    const ordered: T[] = [];
+    const unresolved: T[] = [];
+    const state = new Map<number, 'visiting' | 'done' | 'cyclic'>();
+    const cycles: string[][] = [];
+
+    // Depth first, so a definition is placed after everything it depends on
+    const visit = (index: number, path: number[]): boolean => {
+      const current = state.get(index);
+      if (current === 'done') return true;
+      if (current === 'cyclic') return false;
+      if (current === 'visiting') {
+        cycles.push([...path.slice(path.indexOf(index)), index].map(i => definitions[i]!.name));
+        return false;
+      }
+
+      state.set(index, 'visiting');
+      let resolved = true;
+      for (const dependency of dependencies[index]!) {
+        resolved = visit(dependency, [...path, index]) && resolved;
+      }
+
+      state.set(index, resolved ? 'done' : 'cyclic');
+      (resolved ? ordered : unresolved).push(definitions[index]!);
+      return resolved;
+    };
+
+    definitions.forEach((_, index) => visit(index, []));
+    return { ordered, unresolved, cycles };
+  }
+
+  /**
+   * A cycle among the definitions, or undefined when there is none
+   */
+  static findCycle(definitions: ComputedDefinition[]): string[] | undefined {
+    return this.order(definitions).cycles[0];
+  }
+
+  /**
+   * Evaluate the definitions in dependency order, adding each value to a copy of the data under the
+   * definition's name, where later definitions can read it. Definitions that fail, or are part of a cycle,
+   * are reported as errors and add nothing.
+   */
+  static evaluate<T extends ComputedDefinition>(data: Record<string, unknown>, definitions: T[]): ComputedResult<T> {
+    const { ordered, unresolved, cycles } = this.order(definitions);
+    const errors: ComputedResult<T>['errors'] = unresolved.map(definition => {
+      const cycle = cycles.find(names => names.includes(definition.name));
+      return {
+        definition,
+        message: cycle
+          ? `Computed fields depend on each other: ${cycle.join(' → ')}`
+          : 'Depends on computed fields that depend on each other',
+      };
+    });
+
+    let scope = data;
+    for (const definition of ordered) {
+      try {
+        const value = ExpressionEvaluator.evaluate(definition.expression, scope);
+        scope = this.setValue(scope, definition.name.split('.'), value);
+      } catch (error) {
+        errors.push({ definition, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return { data: scope, errors };
+  }
+
+  /**
+   * Indexes of the definitions one reads. A reference to `order.total` reads a field named `order` or
+   * `order.total.net`, as well as one named `order.total`.
+   */
+  private static getDependencies(definition: ComputedDefinition, definitions: ComputedDefinition[]): number[] {
+    let references: string[];
+    try {
+      references = ExpressionEvaluator.getReferences(definition.expression);
+    } catch {
+      // An expression that does not parse fails when it is evaluated
+      return [];
+    }
+
+    const dependencies: number[] = [];
+    definitions.forEach((other, index) => {
+      const reads = references.some(reference =>
+        reference === other.name || reference.startsWith(`${other.name}.`) || other.name.startsWith(`${reference}.`)
+      );
+      if (reads) dependencies.push(index);
+    });
+    return dependencies;
+  }
+
+  /**
+   * Copy the data with a value set at a path, copying the objects along the path rather than changing them
+   */
+  private static setValue(data: Record<string, unknown>, path: string[], value: unknown): Record<string, unknown> {
+    const [key, ...rest] = path;
+    if (key === undefined || UNSAFE_SEGMENTS.has(key)) {
+      throw new Error(`Invalid name segment '${key ?? ''}'`);
+    }
+
+    const current: unknown = Object.prototype.hasOwnProperty.call(data, key) ? data[key] : undefined;
+    const child = current !== null && typeof current === 'object' && !Array.isArray(current)
+      ? current as Record<string, unknown>
+      : {};
+    return { ...data, [key]: rest.length > 0 ? this.setValue(child, rest, value) : value };
+  }
+}
@@ -0,0 +1,48 @@
+import { PDFDocument } from 'pdf-lib';
+import { PDFEncryptor } from './encryption';
+import { PDFGenerationRequestSchema, toPDFGenerationOptions } from './schemas';
+
+const PRINT = 1 << 2; // bit 3
+const HIGH_QUALITY_PRINT = 1 << 11; // bit 12
+
+/**
+ * Encrypt a blank document with the security options as a request would give them, and return its /P value
+ */
+async function getPermissionValue(security: Record<string, unknown>): Promise<number> {
+  const doc = await PDFDocument.create();
+  doc.addPage([612, 792]);
+
+  const options = toPDFGenerationOptions(PDFGenerationRequestSchema.shape.options.parse({ security }));
+  const { pdfBytes } = await PDFEncryptor.encrypt(await doc.save(), options.security!);
+
+  // The /Encrypt dictionary is written in clear text
+  const match = /\/P (-?\d+)/.exec(Buffer.from(pdfBytes).toString('latin1'));
+  expect(match).not.toBeNull();
+  return Number(match![1]);
+}
+
+describe('PDFEncryptor permissions', () => {
+  it('allows full-quality printing by default', async () => {
+    const flags = await getPermissionValue({ ownerPassword: 'owner' });
+
+    expect(flags & PRINT).toBe(PRINT);
+    expect(flags & HIGH_QUALITY_PRINT).toBe(HIGH_QUALITY_PRINT);
+  });
+
+  it('does not allow printing when only printing is switched off', async () => {
+    const flags = await getPermissionValue({ ownerPassword: 'owner', permissions: { printing: false } });
+
+    expect(flags & PRINT).toBe(0);
+    expect(flags & HIGH_QUALITY_PRINT).toBe(0);
+  });
+
+  it('allows low-resolution printing when degradedPrinting is set without printing', async () => {
+    const flags = await getPermissionValue({
+      ownerPassword: 'owner',
+      permissions: { printing: false, degradedPrinting: true },
+    });
+
+    expect(flags & PRINT).toBe(PRINT);
+    expect(flags & HIGH_QUALITY_PRINT).toBe(0);
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * PDF Encryption
+ * Standard security handler encryption (AES-128 / AES-256) with permission flags, applied to saved PDF bytes
+ */
+
+import crypto from 'crypto';
+import {
+  PDFDocument,
+  PDFObject,
+  PDFRef,
+  PDFDict,
+  PDFArray,
+  PDFName,
+  PDFString,
+  PDFHexString,
+  PDFStream,
+  PDFRawStream,
+} from 'pdf-lib';
+import { PDFSecurityConfig, EncryptionAlgorithm, EncryptionSummary } from './types';
+import { PDFGenerationError } from './utils';
+
+// Padding string from the PDF specification (Algorithm 2, step a)
+const PASSWORD_PADDING = Buffer.from([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+// User access permission bits (PDF 32000-1, Table 22), 1-based as in the specification
+const PERMISSION_BITS = {
+  printing: 3,
+  modifying: 4,
+  copying: 5,
+  annotating: 6,
+  fillingForms: 9,
+  contentAccessibility: 10,
+  documentAssembly: 11,
+  highQualityPrinting: 12,
+} as const;
+
+type Permissions = Required<NonNullable<PDFSecurityConfig['permissions']>>;
+
+// degradedPrinting defaults to the printing permission
+const DEFAULT_PERMISSIONS: Omit<Permissions, 'degradedPrinting'> = {
+  printing: true,
+  modifying: false,
+  copying: true,
+  annotating: false,
+  fillingForms: true,
+  contentAccessibility: true,
+  documentAssembly: false,
+};
+
+interface EncryptionContext {
+  algorithm: EncryptionAlgorithm;
+  fileKey: Buffer;
+}
+
+export class PDFEncryptor {
+  /**
+   * Encrypt a saved PDF. Every string and stream is encrypted and an /Encrypt dictionary is added to the trailer.
+   */
+  static async encrypt(
+    pdfBytes: Uint8Array,
+    config: PDFSecurityConfig
+  ): Promise<{ pdfBytes: Uint8Array; summary: EncryptionSummary }> {
+    const algorithm = config.algorithm || 'aes-256';
+    const permissions = this.resolvePermissions(config.permissions);
+    const userPassword = config.userPassword || '';
+    // Without an owner password nobody could lift the restrictions, so generate an unguessable one
+    const ownerPassword = config.ownerPassword || crypto.randomBytes(32).toString('hex');
+
+    try {
+      const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+      const context = pdfDoc.context;
+      const permissionFlags = this.getPermissionFlags(permissions);
+
+      const existingId = context.trailerInfo.ID;
+      const firstId = existingId instanceof PDFArray && existingId.get(0) instanceof PDFHexString
+        ? Buffer.from((existingId.get(0) as PDFHexString).asBytes())
+        : crypto.randomBytes(16);
+      const secondId = crypto.randomBytes(16);
+
+      const { fileKey, entries } = algorithm === 'aes-256'
+        ? this.buildAes256Entries(userPassword, ownerPassword, permissionFlags)
+        : this.buildAes128Entries(userPassword, ownerPassword, permissionFlags, firstId);
+
+      const encryption: EncryptionContext = { algorithm, fileKey };
+
+      for (const [ref, object] of context.enumerateIndirectObjects()) {
+        context.assign(ref, this.encryptObject(object, ref, encryption));
+      }
+
+      // The /Encrypt dictionary itself is registered after the pass so it stays in clear text
+      const encryptDict = context.obj({
+        Filter: 'Standard',
+        ...entries,
+        P: permissionFlags,
+        StmF: 'StdCF',
+        StrF: 'StdCF',
+        EncryptMetadata: true,
+      });
+      encryptDict.set(PDFName.of('CF'), context.obj({
+        StdCF: {
+          AuthEvent: 'DocOpen',
+          CFM: algorithm === 'aes-256' ? 'AESV3' : 'AESV2',
+          Length: algorithm === 'aes-256' ? 32 : 16,
+        },
+      }));
+
+      context.trailerInfo.Encrypt = context.register(encryptDict);
+      context.trailerInfo.ID = context.obj([
+        PDFHexString.of(firstId.toString('hex')),
+        PDFHexString.of(secondId.toString('hex')),
+      ]);
+
+      // Object streams would need their own encryption pass, so objects are written individually.
+      // Field appearances must not be regenerated after encryption.
+      const encryptedBytes = await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false });
+
+      return {
+        pdfBytes: encryptedBytes,
+        summary: {
+          encrypted: true,
+          algorithm,
+          keyLength: algorithm === 'aes-256' ? 256 : 128,
+          userPasswordRequired: userPassword.length > 0,
+          ownerPasswordProvided: !!config.ownerPassword,
+          permissions,
+        },
+      };
+    } catch (error) {
+      throw new PDFGenerationError(
+        `Failed to encrypt PDF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'ENCRYPTION_ERROR',
+        { algorithm }
+      );
+    }
+  }
+
+  /**
+   * Fill in the permissions a request leaves out. Low-resolution printing is allowed as far as printing is,
+   * so `printing: false` on its own makes the document unprintable.
+   */
+  private static resolvePermissions(requested: PDFSecurityConfig['permissions'] = {}): Permissions {
+    const printing = requested.printing ?? DEFAULT_PERMISSIONS.printing;
+    return {
+      ...DEFAULT_PERMISSIONS,
+      ...requested,
+      printing,
+      degradedPrinting: requested.degradedPrinting ?? printing,
+    };
+  }
+
+  /**
+   * Build the /P value. Bits 7-8 and 13-32 are reserved and must be set; the value is a signed 32-bit integer.
+   */
+  static getPermissionFlags(permissions: Permissions): number {
+    let flags = 0xfffff0c0;
+
+    const allow = (bit: number, allowed: boolean) => {
+      if (allowed) flags |= 1 << (bit - 1);
+    };
+
+    // degradedPrinting alone allows low-resolution printing; printing allows full quality
+    allow(PERMISSION_BITS.printing, permissions.printing || permissions.degradedPrinting);
+    allow(PERMISSION_BITS.highQualityPrinting, permissions.printing);
+    allow(PERMISSION_BITS.modifying, permissions.modifying);
+    allow(PERMISSION_BITS.copying, permissions.copying);
+    allow(PERMISSION_BITS.annotating, permissions.annotating);
+    allow(PERMISSION_BITS.fillingForms, permissions.fillingForms);
+    allow(PERMISSION_BITS.contentAccessibility, permissions.contentAccessibility);
+    allow(PERMISSION_BITS.documentAssembly, permissions.documentAssembly);
+
+    return flags | 0;
+  }
+
+  // ==========================================================================
+  // Object encryption
+  // ==========================================================================
+
+  private static encryptObject(object: PDFObject, ref: PDFRef, encryption: EncryptionContext): PDFObject {
+    if (object instanceof PDFString || object instanceof PDFHexString) {
+      const encrypted = this.encryptBytes(Buffer.from(object.asBytes()), ref, encryption);
+      return PDFHexString.of(encrypted.toString('hex'));
+    }
+
+    if (object instanceof PDFStream) {
+      this.encryptDictEntries(object.dict, ref, encryption);
+
+      // Cross-reference streams are never encrypted
+      if (object.dict.get(PDFName.of('Type')) === PDFName.of('XRef')) {
+        return object;
+      }
+
+      // Filters stay as they are: encryption applies to the encoded stream data
+      const contents = Buffer.from(object.getContents());
+      return PDFRawStream.of(object.dict, this.encryptBytes(contents, ref, encryption));
+    }
+
+    if (object instanceof PDFDict) {
+      this.encryptDictEntries(object, ref, encryption);
+      return object;
+    }
+
+    if (object instanceof PDFArray) {
+      for (let i = 0; i < object.size(); i++) {
+        object.set(i, this.encryptObject(object.get(i), ref, encryption));
+      }
+      return object;
+    }
+
+    return object;
+  }
+
+  private static encryptDictEntries(dict: PDFDict, ref: PDFRef, encryption: EncryptionContext): void {
+    for (const [key, value] of dict.entries()) {
+      dict.set(key, this.encryptObject(value, ref, encryption));
+    }
+  }
+
+  /**
+   * AES-CBC with a random IV prepended to the ciphertext (PDF 32000-1, 7.6.2)
+   */
+  private static encryptBytes(data: Buffer, ref: PDFRef, encryption: EncryptionContext): Buffer {
+    const iv = crypto.randomBytes(16);
+
+    if (encryption.algorithm === 'aes-256') {
+      const cipher = crypto.createCipheriv('aes-256-cbc', encryption.fileKey, iv);
+      return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+    }
+
+    const cipher = crypto.createCipheriv('aes-128-cbc', this.getObjectKey(encryption.fileKey, ref), iv);
+    return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+  }
+
+  /**
+   * Per-object key for AESV2 (Algorithm 1): MD5 of the file key, object number, generation and "sAlT"
+   */
+  private static getObjectKey(fileKey: Buffer, ref: PDFRef): Buffer {
+    const objectId = Buffer.alloc(5);
+    objectId.writeUIntLE(ref.objectNumber, 0, 3);
+    objectId.writeUIntLE(ref.generationNumber, 3, 2);
+
+    return crypto.createHash('md5')
+      .update(fileKey)
+      .update(objectId)
+      .update(Buffer.from('sAlT', 'latin1'))
+      .digest()
+      .subarray(0, Math.min(fileKey.length + 5, 16));
+  }
+
+  // ==========================================================================
+  // Revision 4 (AES-128) password entries
+  // ==========================================================================
+
+  private static buildAes128Entries(
+    userPassword: string,
+    ownerPassword: string,
+    permissionFlags: number,
+    documentId: Buffer
+  ): { fileKey: Buffer; entries: Record<string, PDFObject | string | number> } {
+    const keyLength = 16;
+    const paddedUser = this.padPassword(userPassword);
+    const paddedOwner = this.padPassword(ownerPassword);
+
+    // Algorithm 3: /O entry
+    let ownerHash = crypto.createHash('md5').update(paddedOwner).digest();
+    for (let i = 0; i < 50; i++) {
+      ownerHash = crypto.createHash('md5').update(ownerHash).digest();
+    }
+    const ownerKey = ownerHash.subarray(0, keyLength);
+    let ownerEntry = this.rc4(ownerKey, paddedUser);
+    for (let i = 1; i <= 19; i++) {
+      ownerEntry = this.rc4(this.xorKey(ownerKey, i), ownerEntry);
+    }
+
+    // Algorithm 2: file encryption key
+    const flags = Buffer.alloc(4);
+    flags.writeInt32LE(permissionFlags, 0);
+    let fileKey = crypto.createHash('md5')
+      .update(paddedUser)
+      .update(ownerEntry)
+      .update(flags)
+      .update(documentId)
+      .digest();
+    for (let i = 0; i < 50; i++) {
+      fileKey = crypto.createHash('md5').update(fileKey.subarray(0, keyLength)).digest();
+    }
+    fileKey = fileKey.subarray(0, keyLength);
+
+    // Algorithm 5: /U entry, padded with arbitrary bytes to 32
+    let userEntry = this.rc4(fileKey, crypto.createHash('md5').update(PASSWORD_PADDING).update(documentId).digest());
+    for (let i = 1; i <= 19; i++) {
+      userEntry = this.rc4(this.xorKey(fileKey, i), userEntry);
+    }
+    userEntry = Buffer.concat([userEntry, crypto.randomBytes(16)]);
+
+    return {
+      fileKey,
+      entries: {
+        V: 4,
+        R: 4,
+        Length: 128,
+        O: PDFHexString.of(ownerEntry.toString('hex')),
+        U: PDFHexString.of(userEntry.toString('hex')),
+      },
+    };
+  }
+
+  private static padPassword(password: string): Buffer {
+    const bytes = Buffer.from(password, 'latin1').subarray(0, 32);
+    return Buffer.concat([bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length)]);
+  }
+
+  private static xorKey(key: Buffer, value: number): Buffer {
+    return Buffer.from(key.map((byte) => byte ^ value));
+  }
+
+  /**
+   * RC4 is only used to derive the revision 4 password entries; OpenSSL 3 no longer ships it by default
+   */
+  private static rc4(key: Buffer, data: Buffer): Buffer {
+    const state = Array.from({ length: 256 }, (_, i) => i);
+    let j = 0;
+    for (let i = 0; i < 256; i++) {
+      j = (j + state[i]! + key[i % key.length]!) & 0xff;
+      [state[i], state[j]] = [state[j]!, state[i]!];
+    }
+
+    const output = Buffer.alloc(data.length);
+    let a = 0;
+    let b = 0;
+    for (let k = 0; k < data.length; k++) {
+      a = (a + 1) & 0xff;
+      b = (b + state[a]!) & 0xff;
+      [state[a], state[b]] = [state[b]!, state[a]!];
+      output[k] = data[k]! ^ state[(state[a]! + state[b]!) & 0xff]!;
+    }
+
+    return output;
+  }
+
+  // ==========================================================================
+  // Revision 6 (AES-256) password entries
+  // ==========================================================================
+
+  private static buildAes256Entries(
+    userPassword: string,
+    ownerPassword: string,
+    permissionFlags: number
+  ): { fileKey: Buffer; entries: Record<string, PDFObject | string | number> } {
+    const fileKey = crypto.randomBytes(32);
+    const user = this.preparePassword(userPassword);
+    const owner = this.preparePassword(ownerPassword);
+
+    // Algorithm 8: /U and /UE
+    const userValidationSalt = crypto.randomBytes(8);
+    const userKeySalt = crypto.randomBytes(8);
+    const userEntry = Buffer.concat([
+      this.hardenedHash(user, userValidationSalt),
+      userValidationSalt,
+      userKeySalt,
+    ]);
+    const userKeyEntry = this.aes256NoPadding(this.hardenedHash(user, userKeySalt), fileKey);
+
+    // Algorithm 9: /O and /OE, bound to the /U entry
+    const ownerValidationSalt = crypto.randomBytes(8);
+    const ownerKeySalt = crypto.randomBytes(8);
+    const ownerEntry = Buffer.concat([
+      this.hardenedHash(owner, ownerValidationSalt, userEntry),
+      ownerValidationSalt,
+      ownerKeySalt,
+    ]);
+    const ownerKeyEntry = this.aes256NoPadding(this.hardenedHash(owner, ownerKeySalt, userEntry), fileKey);
+
+    // Algorithm 10: /Perms
+    const perms = Buffer.alloc(16);
+    perms.writeInt32LE(permissionFlags, 0);
+    perms.writeUInt32LE(0xffffffff, 4);
+    perms.write('Tadb', 8, 'latin1');
+    crypto.randomBytes(4).copy(perms, 12);
+    const permsCipher = crypto.createCipheriv('aes-256-ecb', fileKey, null).setAutoPadding(false);
+    const permsEntry = Buffer.concat([permsCipher.update(perms), permsCipher.final()]);
+
+    return {
+      fileKey,
+      entries: {
+        V: 5,
+        R: 6,
+        Length: 256,
+        O: PDFHexString.of(ownerEntry.toString('hex')),
+        U: PDFHexString.of(userEntry.toString('hex')),
+        OE: PDFHexString.of(ownerKeyEntry.toString('hex')),
+        UE: PDFHexString.of(userKeyEntry.toString('hex')),
+        Perms: PDFHexString.of(permsEntry.toString('hex')),
+      },
+    };
+  }
+
+  /**
+   * Revision 6 passwords are UTF-8 (after normalisation), truncated to 127 bytes
+   */
+  private static preparePassword(password: string): Buffer {
+    return Buffer.from(password.normalize('NFKC'), 'utf8').subarray(0, 127);
+  }
+
+  /**
+   * Algorithm 2.B: iterated SHA-256/384/512 hash used by revision 6
+   */
+  private static hardenedHash(password: Buffer, salt: Buffer, userEntry: Buffer = Buffer.alloc(0)): Buffer {
+    let key = crypto.createHash('sha256').update(password).update(salt).update(userEntry).digest();
+
+    for (let round = 0; ; round++) {
+      const block = Buffer.concat([password, key, userEntry]);
+      const repeated = Buffer.concat(Array.from({ length: 64 }, () => block));
+
+      const cipher = crypto.createCipheriv('aes-128-cbc', key.subarray(0, 16), key.subarray(16, 32)).setAutoPadding(false);
+      const encrypted = Buffer.concat([cipher.update(repeated), cipher.final()]);
+
+      // The first 16 bytes as a big-endian number mod 3 equals their byte sum mod 3
+      let sum = 0;
+      for (let i = 0; i < 16; i++) sum += encrypted[i]!;
+      const hashName = ['sha256', 'sha384', 'sha512'][sum % 3]!;
+      key = crypto.createHash(hashName).update(encrypted).digest();
+
+      if (round >= 63 && encrypted[encrypted.length - 1]! <= round - 31) {
+        break;
+      }
+    }
+
+    return key.subarray(0, 32);
+  }
+
+  private static aes256NoPadding(key: Buffer, data: Buffer): Buffer {
+    const cipher = crypto.createCipheriv('aes-256-cbc', key, Buffer.alloc(16)).setAutoPadding(false);
+    return Buffer.concat([cipher.update(data), cipher.final()]);
+  }
+}
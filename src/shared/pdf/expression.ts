@@ -0,0 +1,645 @@
+/**
+ * Expression Evaluator
+ * Parses and evaluates the small expression language of field conditions and computed fields, such as
+ * `customer.type == "business" && total > 1000` or `addDays(issueDate, 30)`. Expressions only read data:
+ * there are no assignments, and nothing can be reached but the data's own properties and a fixed set of functions.
+ *
+ * The module has no dependencies, so request validation can check expressions without loading the PDF engine.
+ */
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_NESTING_DEPTH = 32;
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[\w$]/;
+const NUMBER_PATTERN = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '.', '[', ']', ','];
+const KEYWORDS: Record<string, ExpressionValue> = { true: true, false: false, null: null };
+
+export type ExpressionValue = string | number | boolean | null | undefined | object;
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+// The functions expressions may call, with their smallest and largest argument counts
+const FUNCTIONS: Record<string, [number, number]> = {
+  sum: [1, 2], // sum(list) or sum(list, column): a column of table data or a property of a list of objects
+  count: [1, 1],
+  min: [1, 20],
+  max: [1, 20],
+  round: [1, 2],
+  concat: [1, 20],
+  coalesce: [1, 20],
+  today: [0, 0],
+  addDays: [2, 2],
+  addMonths: [2, 2],
+  daysBetween: [2, 2],
+};
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+// Binary operators from the loosest to the tightest binding
+const PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly position: number // index into the expression
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export class ExpressionEvaluator {
+  /**
+   * Parse an expression, throwing an ExpressionError at the first problem
+   */
+  static parse(source: string): ExpressionNode {
+    if (typeof source !== 'string' || source.trim() === '') {
+      throw this.invalid('Expression is empty', source, 0);
+    }
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+      throw this.invalid(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, source, MAX_EXPRESSION_LENGTH);
+    }
+
+    return new Parser(source, this.tokenize(source)).parseExpression();
+  }
+
+  /**
+   * Check an expression. Returns an error message, or undefined when it parses.
+   */
+  static validate(source: string): string | undefined {
+    try {
+      this.parse(source);
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid expression';
+    }
+  }
+
+  /**
+   * Evaluate an expression against data. Names that are not in the data evaluate to undefined
+   * rather than failing, so conditions on optional values are simply false.
+   */
+  static evaluate(expression: string | ExpressionNode, data: Record<string, unknown>): ExpressionValue {
+    return this.evaluateNode(typeof expression === 'string' ? this.parse(expression) : expression, data);
+  }
+
+  /**
+   * The data paths an expression reads, such as `customer.type` for `customer.type == "business"`.
+   * A computed index ends the path: `items[0].price` reads `items`.
+   */
+  static getReferences(expression: string | ExpressionNode): string[] {
+    const references = new Set<string>();
+    const visit = (node: ExpressionNode): void => {
+      const path = this.getPath(node);
+      if (path) {
+        references.add(path);
+        return;
+      }
+
+      switch (node.type) {
+        case 'member':
+          visit(node.object);
+          if (node.computed) visit(node.property);
+          break;
+        case 'unary':
+          visit(node.argument);
+          break;
+        case 'binary':
+          visit(node.left);
+          visit(node.right);
+          break;
+        case 'call':
+          node.args.forEach(visit);
+          break;
+      }
+    };
+
+    visit(typeof expression === 'string' ? this.parse(expression) : expression);
+    return [...references];
+  }
+
+  /**
+   * Evaluate an expression as a condition, by JavaScript truthiness
+   */
+  static test(expression: string | ExpressionNode, data: Record<string, unknown>): boolean {
+    return Boolean(this.evaluate(expression, data));
+  }
+
+  private static evaluateNode(node: ExpressionNode, data: Record<string, unknown>): ExpressionValue {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        return this.getOwn(data, node.name);
+
+      case 'member': {
+        const object = this.evaluateNode(node.object, data);
+        const property = node.computed ? this.evaluateNode(node.property, data) : (node.property as { value: string }).value;
+        return this.getOwn(object, property);
+      }
+
+      case 'unary': {
+        const argument = this.evaluateNode(node.argument, data);
+        return node.operator === '!' ? !argument : -this.toNumber(argument);
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, data);
+
+      case 'call':
+        return this.call(node.name, node.args.map(arg => this.evaluateNode(arg, data)));
+    }
+  }
+
+  /**
+   * The dotted path of a name or of property accesses on a name, or undefined for anything else
+   */
+  private static getPath(node: ExpressionNode): string | undefined {
+    if (node.type === 'identifier') {
+      return node.name;
+    }
+    if (node.type === 'member' && !node.computed) {
+      const object = this.getPath(node.object);
+      return object && `${object}.${String((node.property as { value: string }).value)}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Call a function. Dates are read as ISO dates (YYYY-MM-DD, in UTC) or anything Date accepts,
+   * and returned as ISO dates; invalid dates give null.
+   */
+  private static call(name: string, args: ExpressionValue[]): ExpressionValue {
+    const [first, second] = args;
+
+    switch (name) {
+      case 'sum':
+        return this.getColumn(first, second).reduce<number>((total, value) => total + this.toAmount(value), 0);
+
+      case 'count':
+        return this.getRows(first).length;
+
+      case 'min':
+      case 'max': {
+        const numbers = args
+          .flatMap(arg => (Array.isArray(arg) ? arg as ExpressionValue[] : [arg]))
+          .filter(value => value !== null && value !== undefined && value !== '')
+          .map(value => this.toNumber(value))
+          .filter(value => !isNaN(value));
+        if (numbers.length === 0) return null;
+        return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+      }
+
+      case 'round': {
+        const factor = 10 ** Math.max(0, Math.min(10, Math.trunc(this.toNumber(second ?? 0)) || 0));
+        return Math.round(this.toNumber(first) * factor) / factor;
+      }
+
+      case 'concat':
+        return args.map(arg => this.toText(arg)).join('');
+
+      case 'coalesce':
+        return args.find(arg => arg !== null && arg !== undefined && arg !== '') ?? null;
+
+      case 'today':
+        return this.formatDate(new Date());
+
+      case 'addDays':
+      case 'addMonths': {
+        const date = this.parseDate(first);
+        const amount = Math.trunc(this.toNumber(second));
+        if (!date || isNaN(amount)) return null;
+        if (name === 'addDays') {
+          date.setUTCDate(date.getUTCDate() + amount);
+        } else {
+          // The end of a shorter month stands in for a day it does not have
+          const day = date.getUTCDate();
+          date.setUTCDate(1);
+          date.setUTCMonth(date.getUTCMonth() + amount);
+          const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+          date.setUTCDate(Math.min(day, lastDay));
+        }
+        return this.formatDate(date);
+      }
+
+      case 'daysBetween': {
+        const from = this.parseDate(first);
+        const to = this.parseDate(second);
+        return from && to ? Math.round((to.getTime() - from.getTime()) / MS_PER_DAY) : null;
+      }
+
+      default:
+        throw new ExpressionError(`Unknown function '${name}'`, '', 0);
+    }
+  }
+
+  /**
+   * Rows of a list, or of table data ({ headers, rows })
+   */
+  private static getRows(value: ExpressionValue): ExpressionValue[] {
+    if (Array.isArray(value)) {
+      return value as ExpressionValue[];
+    }
+    const rows = this.getOwn(value, 'rows');
+    return Array.isArray(rows) ? rows as ExpressionValue[] : [];
+  }
+
+  /**
+   * The values of a column: a header name or index of table data, a property of a list of objects,
+   * an index into a list of arrays, or the list itself when no column is given
+   */
+  private static getColumn(value: ExpressionValue, column: ExpressionValue): ExpressionValue[] {
+    const rows = this.getRows(value);
+    if (column === undefined || column === null) {
+      return rows;
+    }
+
+    const headers = this.getOwn(value, 'headers');
+    const index = typeof column === 'string' && Array.isArray(headers) ? headers.indexOf(column) : -1;
+    const key = index >= 0 ? index : column;
+    return rows.map(row => this.getOwn(row, key));
+  }
+
+  private static parseDate(value: ExpressionValue): Date | undefined {
+    let date: Date;
+    if (value instanceof Date) {
+      date = new Date(value.getTime());
+    } else if (typeof value === 'string' && ISO_DATE_PATTERN.test(value.trim())) {
+      const [, year, month, day] = ISO_DATE_PATTERN.exec(value.trim())!;
+      date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    } else if (typeof value === 'string' || typeof value === 'number') {
+      date = new Date(value);
+    } else {
+      return undefined;
+    }
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static evaluateBinary(
+    operator: string,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    data: Record<string, unknown>
+  ): ExpressionValue {
+    const left = this.evaluateNode(leftNode, data);
+
+    // Logical operators short-circuit and return an operand, as in JavaScript
+    if (operator === '&&') return left ? this.evaluateNode(rightNode, data) : left;
+    if (operator === '||') return left ? left : this.evaluateNode(rightNode, data);
+
+    const right = this.evaluateNode(rightNode, data);
+    switch (operator) {
+      case '==':
+        return this.equals(left, right);
+      case '!=':
+        return !this.equals(left, right);
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        return this.compare(operator, left, right);
+      case '+':
+        // Payload numbers often arrive as strings, so only text that is not a number concatenates
+        return this.isText(left) || this.isText(right)
+          ? `${this.toText(left)}${this.toText(right)}`
+          : this.toNumber(left) + this.toNumber(right);
+      case '-':
+        return this.toNumber(left) - this.toNumber(right);
+      case '*':
+        return this.toNumber(left) * this.toNumber(right);
+      case '/':
+        return this.toNumber(left) / this.toNumber(right);
+      case '%':
+        return this.toNumber(left) % this.toNumber(right);
+      default:
+        throw new ExpressionError(`Unknown operator '${operator}'`, '', 0);
+    }
+  }
+
+  /**
+   * Strict equality, except that numbers equal numeric strings of the same value
+   * and null equals undefined
+   */
+  private static equals(left: ExpressionValue, right: ExpressionValue): boolean {
+    if (left === null || left === undefined || right === null || right === undefined) {
+      return (left ?? null) === (right ?? null);
+    }
+    if (typeof left === 'number' && typeof right === 'string' && right.trim() !== '') {
+      return left === Number(right);
+    }
+    if (typeof left === 'string' && typeof right === 'number' && left.trim() !== '') {
+      return Number(left) === right;
+    }
+    return left === right;
+  }
+
+  /**
+   * Strings compare as text, anything else as numbers. Comparisons with missing values are false.
+   */
+  private static compare(operator: string, left: ExpressionValue, right: ExpressionValue): boolean {
+    if (left === null || left === undefined || right === null || right === undefined) {
+      return false;
+    }
+
+    const bothText = typeof left === 'string' && typeof right === 'string';
+    const a = bothText ? left : this.toNumber(left);
+    const b = bothText ? right : this.toNumber(right);
+    switch (operator) {
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      default: return a >= b;
+    }
+  }
+
+  /**
+   * Read an own property. Inherited properties, such as constructor or __proto__, are never reached.
+   */
+  private static getOwn(object: unknown, key: unknown): ExpressionValue {
+    if (object === null || typeof object !== 'object' || (typeof key !== 'string' && typeof key !== 'number')) {
+      return undefined;
+    }
+    return Object.prototype.hasOwnProperty.call(object, key)
+      ? (object as Record<string | number, ExpressionValue>)[key]
+      : undefined;
+  }
+
+  private static toNumber(value: ExpressionValue): number {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string' && value.trim() !== '') return Number(value);
+    return NaN;
+  }
+
+  /**
+   * Amounts as table totals read them: "$1,200.50" is 1200.5 and anything unreadable is 0
+   */
+  private static toAmount(value: ExpressionValue): number {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : 0;
+    }
+    const parsed = parseFloat(String(value ?? '').replace(/[^\d.-]/g, ''));
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+
+  private static isText(value: ExpressionValue): boolean {
+    return typeof value === 'string' && (value.trim() === '' || isNaN(Number(value)));
+  }
+
+  private static toText(value: ExpressionValue): string {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+      const char = source[index]!;
+      if (/\s/.test(char)) {
+        index++;
+        continue;
+      }
+
+      const number = NUMBER_PATTERN.exec(source.slice(index));
+      if (/[\d.]/.test(char) && number && !(char === '.' && !/\d/.test(source[index + 1] ?? ''))) {
+        tokens.push({ type: 'number', value: number[0], position: index });
+        index += number[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const start = index;
+        let value = '';
+        index++;
+        while (index < source.length && source[index] !== char) {
+          if (source[index] === '\\' && index + 1 < source.length) {
+            index++;
+          }
+          value += source[index];
+          index++;
+        }
+        if (index >= source.length) {
+          throw this.invalid('Unterminated string', source, start);
+        }
+        tokens.push({ type: 'string', value, position: start });
+        index++;
+        continue;
+      }
+
+      if (IDENTIFIER_START.test(char)) {
+        const start = index;
+        while (index < source.length && IDENTIFIER_PART.test(source[index]!)) {
+          index++;
+        }
+        tokens.push({ type: 'identifier', value: source.slice(start, index), position: start });
+        continue;
+      }
+
+      const strict = ['===', '!=='].find(candidate => source.startsWith(candidate, index));
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, index));
+      if (strict || !operator) {
+        throw this.invalid(`Unexpected '${strict ?? char}'`, source, index);
+      }
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+  }
+
+  /**
+   * An error pointing at a position, counted from 1 in the message
+   */
+  static invalid(message: string, source: string, position: number): ExpressionError {
+    return new ExpressionError(`${message} at position ${position + 1}`, source, position);
+  }
+}
+
+/**
+ * Recursive descent parser over the tokens of one expression
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  parseExpression(): ExpressionNode {
+    const node = this.parseBinary(0);
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw ExpressionEvaluator.invalid(`Unexpected '${token.value}'`, this.source, token.position);
+    }
+    return node;
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    const operators = PRECEDENCE[level];
+    if (!operators) {
+      return this.parseUnary();
+    }
+
+    let node = this.parseBinary(level + 1);
+    while (this.peek().type === 'operator' && operators.includes(this.peek().value)) {
+      const operator = this.next().value;
+      node = { type: 'binary', operator, left: node, right: this.parseBinary(level + 1) };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      this.next();
+      return this.nested(() => ({ type: 'unary', operator: token.value as '!' | '-', argument: this.parseUnary() }));
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.accept('.')) {
+        const name = this.next();
+        if (name.type !== 'identifier') {
+          throw ExpressionEvaluator.invalid('Expected a property name after \'.\'', this.source, name.position);
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: name.value }, computed: false };
+      } else if (this.accept('[')) {
+        const property = this.nested(() => this.parseBinary(0));
+        this.expect(']');
+        node = { type: 'member', object: node, property, computed: true };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+        return this.accept('(') ? this.parseCall(token) : { type: 'identifier', name: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.nested(() => this.parseBinary(0));
+          this.expect(')');
+          return node;
+        }
+        break;
+      case 'end':
+        throw ExpressionEvaluator.invalid('Unexpected end of expression', this.source, token.position);
+    }
+
+    throw ExpressionEvaluator.invalid(`Unexpected '${token.value}'`, this.source, token.position);
+  }
+
+  /**
+   * Parse the arguments of a call to a known function, after its opening parenthesis
+   */
+  private parseCall(name: Token): ExpressionNode {
+    const arity = Object.prototype.hasOwnProperty.call(FUNCTIONS, name.value) ? FUNCTIONS[name.value] : undefined;
+    if (!arity) {
+      throw ExpressionEvaluator.invalid(`Unknown function '${name.value}'`, this.source, name.position);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.accept(')')) {
+      do {
+        args.push(this.nested(() => this.parseBinary(0)));
+      } while (this.accept(','));
+      this.expect(')');
+    }
+
+    const [min, max] = arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : `${min} to ${max}`;
+      throw ExpressionEvaluator.invalid(
+        `${name.value}() takes ${expected} argument${max === 1 ? '' : 's'}`,
+        this.source,
+        name.position
+      );
+    }
+    return { type: 'call', name: name.value, args };
+  }
+
+  /**
+   * Parse a nested part, refusing expressions nested deeper than the limit
+   */
+  private nested(parse: () => ExpressionNode): ExpressionNode {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw ExpressionEvaluator.invalid('Expression is nested too deeply', this.source, this.peek().position);
+    }
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.accept(operator)) {
+      const token = this.peek();
+      throw ExpressionEvaluator.invalid(`Expected '${operator}'`, this.source, token.position);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] ?? this.tokens[this.tokens.length - 1]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+}
@@ -3,20 +3,56 @@
  * Orchestrates the entire PDF generation process from template and data to final PDF
  */
 
-import { PDFDocument, rgb, degrees } from 'pdf-lib';
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
 import { GetObjectCommand } from '@aws-sdk/client-s3';
 import { s3Client } from '@/shared/storage/s3-client';
-import { TemplateRepository, FieldRepository } from '@/shared/database/repositories';
+import { TemplateRepository, FieldRepository, UploadedFileRepository } from '@/shared/database/repositories';
+import { fontResourceService } from '@/shared/services/font-resource-service';
+import { imageResourceService } from '@/shared/services/image-resource-service';
+import { signingCredentialsService } from '@/shared/services/signing-credentials-service';
+import { getStoredBackgroundColor } from '@/shared/utils/validation';
+import {
+  FieldStyle as StoredFieldStyle,
+  BarcodeConfig,
+  TableConfig,
+  QRCodeConfig as StoredQRCodeConfig,
+  ImageConfig,
+  SignatureFieldConfig,
+  ChoiceConfig,
+  ComputedConfig,
+  FieldAdvanced,
+} from '@/types';
 import {
   PDFGenerationRequest,
   PDFGenerationOptions,
   PDFProcessingResult,
   PDFTemplateData,
   PDFFieldDefinition,
+  FieldType,
+  FieldValidationRule,
   ProcessingError,
   ProcessingWarning,
   ValidationResult,
+  EncryptionSummary,
+  DigitalSignatureSummary,
+  AcroFormFillSummary,
+  SignatureConfig,
+  WatermarkConfig,
+  FontResource,
+  PDFTemplateSettings,
+  QRCodeConfig,
+  SignatureStyle,
+  TableStyle,
+  FieldStyle,
+  FontConfig,
 } from './types';
+import { AcroFormBuilder, AcroFormFiller } from './acroform';
+import { ExpressionEvaluator } from './expression';
+import { ComputedFields } from './computed';
+import { TextTemplate, TextTemplateResult } from './text-template';
+import { PDFEncryptor } from './encryption';
+import { PDFSigner } from './signing';
+import { WatermarkRenderer } from './watermark';
 import {
   DataTransformer,
   FieldValidator,
@@ -26,15 +62,69 @@ import {
   TemplateNotFoundError,
   ValidationError,
   colorUtils,
+  NUMBER_FIELD_FORMAT,
+  DATE_FIELD_FORMAT,
 } from './utils';
 
+/**
+ * Map field types stored by the editor to renderer field types
+ */
+const FIELD_TYPE_MAP: Record<string, FieldType> = {
+  text: 'text',
+  email: 'text',
+  number: 'number',
+  date: 'date',
+  checkbox: 'checkbox',
+  image: 'image',
+  signature: 'signature',
+  table: 'table',
+  QRCode: 'qrcode',
+  barcode: 'barcode',
+  radio: 'radio',
+  dropdown: 'dropdown',
+  computed: 'computed',
+  label: 'label',
+};
+
+/**
+ * Field settings as the field handlers store them in Field.properties
+ */
+interface StoredFieldProperties {
+  style?: Partial<StoredFieldStyle>;
+  defaultValue?: unknown;
+  placeholder?: string;
+  isRequired?: boolean;
+  barcodeConfig?: BarcodeConfig;
+  qrcodeConfig?: StoredQRCodeConfig;
+  tableConfig?: TableConfig;
+  imageConfig?: ImageConfig;
+  signatureConfig?: SignatureFieldConfig;
+  choiceConfig?: ChoiceConfig;
+  computedConfig?: ComputedConfig;
+  advanced?: Partial<FieldAdvanced>;
+  text?: string;
+}
+
+/**
+ * Validation settings as the field handlers store them in Field.validation
+ */
+interface StoredFieldValidation {
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  customMessage?: string;
+}
+
 export class PDFGenerator {
   private templatesRepo: TemplateRepository;
   private fieldsRepo: FieldRepository;
+  private uploadedFilesRepo: UploadedFileRepository;
 
   constructor() {
     this.templatesRepo = new TemplateRepository();
     this.fieldsRepo = new FieldRepository();
+    this.uploadedFilesRepo = new UploadedFileRepository();
   }
 
   /**
@@ -65,41 +155,76 @@ export class PDFGenerator {
       const basePdfBuffer = await this.loadBasePDF(template.templateUrl);
       const pdfDoc = await PDFDocument.load(basePdfBuffer);
 
+      // Register the template's custom fonts before anything is drawn
+      warnings.push(...await this.registerTemplateFonts(pdfDoc, template.fonts || []));
+
+      // Hidden fields, and conditional fields whose condition is false, are not filled
+      const visibleFields = this.getVisibleFields(fields, request.data, warnings);
+
       // Process data and map to fields
-      const processedData = await this.processData(request.data, fields);
+      const processedData = this.processData(request.data, fields, warnings, visibleFields);
+
+      // Fill the uploaded PDF's own form fields, before template fields are added,
+      // so flattening leaves fillable template fields in place
+      let acroForm: AcroFormFillSummary | undefined;
+      if (request.options?.acroForm) {
+        const filled = AcroFormFiller.fill(
+          pdfDoc,
+          request.data,
+          request.options.acroForm,
+          fields.map(field => field.name.split('.')[0]!)
+        );
+        acroForm = filled.summary;
+        warnings.push(...filled.warnings);
+      }
 
       // Fill the PDF with data
-      const { fieldErrors, fieldWarnings } = await this.fillPDFFields(
+      const { fieldErrors, fieldWarnings, pagesAdded, templatePages } = await this.fillPDFFields(
         pdfDoc,
-        fields,
-        processedData
+        basePdfBuffer,
+        visibleFields,
+        processedData,
+        template.settings,
+        request.userId,
+        request.options?.fillable
       );
       
       errors.push(...fieldErrors);
       warnings.push(...fieldWarnings);
 
       // Apply PDF options (watermark, metadata, etc.)
-      await this.applyPDFOptions(pdfDoc, request.options || {});
+      warnings.push(...await this.applyPDFOptions(pdfDoc, request.options || {}));
+
+      // Fonts that had to fall back to another family or variant while drawing
+      warnings.push(...FontManager.takeWarnings(pdfDoc));
+
+      // A signature covers the saved bytes, so its placeholder goes in before saving and it is signed last
+      const signing = request.options?.digitalSignature;
+      const preparedSignature = signing
+        ? await PDFSigner.prepare(
+          pdfDoc,
+          await signingCredentialsService.load(),
+          signing,
+          this.findSignatureField(fields, processedData, templatePages, signing.fieldId)
+        )
+        : undefined;
+
+      // Generate the final PDF. Signatures are located in the saved bytes, so objects are written individually.
+      let pdfBytes = await pdfDoc.save(preparedSignature ? { useObjectStreams: false } : undefined);
+
+      // Encryption rewrites the saved document, so it runs once everything has been drawn
+      let encryption: EncryptionSummary | undefined;
+      if (request.options?.security) {
+        ({ pdfBytes, summary: encryption } = await PDFEncryptor.encrypt(pdfBytes, request.options.security));
+      }
 
-      // Generate the final PDF
-      const pdfBytes = await pdfDoc.save();
+      let digitalSignature: DigitalSignatureSummary | undefined;
+      if (preparedSignature) {
+        ({ pdfBytes, summary: digitalSignature } = PDFSigner.sign(pdfBytes, preparedSignature));
+      }
       const processingTime = Date.now() - startTime;
 
-      // Prepare result based on output format
-      const result = await this.prepareResult(
-        pdfBytes,
-        request.options?.outputFormat || 'buffer',
-        {
-          templateId: request.templateId,
-          generatedAt: new Date().toISOString(),
-          processingTime,
-          fileSize: pdfBytes.length,
-          pageCount: pdfDoc.getPageCount(),
-          fieldsProcessed: fields.length - errors.filter(e => e.field).length,
-          fieldsSkipped: errors.filter(e => e.field).length,
-          version: '1.0.0',
-        }
-      );
+      const fieldsSkipped = errors.filter(e => e.field).length;
 
       return {
         success: true,
@@ -109,11 +234,15 @@ export class PDFGenerator {
           processingTime,
           fileSize: pdfBytes.length,
           pageCount: pdfDoc.getPageCount(),
-          fieldsProcessed: fields.length - errors.filter(e => e.field).length,
-          fieldsSkipped: errors.filter(e => e.field).length,
+          fieldsProcessed: fields.length - fieldsSkipped,
+          fieldsSkipped,
+          pagesAdded,
           version: '1.0.0',
+          ...(acroForm && { acroForm }),
+          ...(encryption && { encryption }),
+          ...(digitalSignature && { digitalSignature }),
         },
-        ...result,
+        ...this.prepareResult(pdfBytes, request.options?.outputFormat || 'buffer'),
         errors: errors.length > 0 ? errors : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
       };
@@ -169,6 +298,11 @@ export class PDFGenerator {
       errors.push('Data object is required');
     }
 
+    // Encryption rewrites every string, the signature's byte offsets included
+    if (request.options?.security && request.options.digitalSignature) {
+      errors.push('A document cannot be both encrypted and digitally signed');
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -176,6 +310,36 @@ export class PDFGenerator {
     };
   }
 
+  /**
+   * Find the signature field a digital signature is bound to, with its value and the page it is on.
+   * Pages are the template's pages, from before continuation pages were inserted.
+   */
+  private findSignatureField(
+    fields: PDFFieldDefinition[],
+    data: Record<string, unknown>,
+    templatePages: PDFPage[],
+    fieldId?: string
+  ): { definition: PDFFieldDefinition; value?: SignatureConfig; page: PDFPage } | undefined {
+    if (!fieldId) {
+      return undefined;
+    }
+
+    const definition = fields.find(field => field.id === fieldId);
+    if (!definition || definition.type !== 'signature') {
+      throw new PDFGenerationError(`Signature field not found: ${fieldId}`, 'INVALID_SIGNATURE_FIELD', { fieldId });
+    }
+
+    const page = templatePages[definition.page - 1];
+    if (!page) {
+      throw new PDFGenerationError(`Page ${definition.page} does not exist in the template`, 'INVALID_PAGE', {
+        page: definition.page,
+      });
+    }
+
+    const value = data[fieldId];
+    return { definition, page, value: value && typeof value === 'object' ? value as SignatureConfig : undefined };
+  }
+
   /**
    * Get template data from repository
    */
@@ -186,13 +350,23 @@ export class PDFGenerator {
         return null;
       }
 
+      // Resolve the uploaded source PDF the template was created from
+      const sourceFile = template.originalFileId
+        ? await this.uploadedFilesRepo.findById(template.originalFileId)
+        : null;
+      if (!sourceFile) {
+        console.error('Template source file not found:', template.originalFileId);
+        return null;
+      }
+
       // Convert repository template to PDF template data
       return {
         id: template.id,
         name: template.name,
         description: template.description,
-        templateUrl: `s3://${process.env['S3_BUCKET']}/${template.originalFileId}`, // Construct S3 URL
+        templateUrl: `s3://${sourceFile.s3Bucket}/${sourceFile.s3Key}`,
         fields: [], // Will be populated separately
+        fonts: template.templateData?.metadata?.['fonts'] as FontResource[] | undefined,
         pages: [
           {
             number: 1,
@@ -213,8 +387,9 @@ export class PDFGenerator {
         settings: {
           defaultFont: { family: 'Helvetica', size: 12 },
           defaultColor: rgb(0, 0, 0),
-          allowOverflow: false,
-          autoResize: true,
+          // Template metadata can switch off shrink-to-fit or let text run outside its box
+          allowOverflow: template.templateData?.metadata?.['allowOverflow'] === true,
+          autoResize: template.templateData?.metadata?.['autoResize'] !== false,
           quality: 'medium',
           compression: true,
         },
@@ -233,46 +408,198 @@ export class PDFGenerator {
       const fieldsResult = await this.fieldsRepo.findByTemplateId(templateId);
       const fields = fieldsResult; // Direct array from new repository
       
-      return fields.map((field: any) => ({
-        id: field.id,
-        name: field.name,
-        type: field.type as any, // Type mapping
-        page: field.page || 1,
-        position: {
-          x: field.x,
-          y: field.y,
-          rotation: field.rotation,
-        },
-        dimensions: {
-          width: field.width,
-          height: field.height,
-        },
-        style: {
-          font: {
-            family: field.fontFamily || 'Helvetica',
-            size: field.fontSize || 12,
-            weight: field.fontWeight as any,
-            style: field.fontStyle as any,
+      return fields.map((field): PDFFieldDefinition => {
+        const properties = (field.properties || {}) as StoredFieldProperties;
+        const style = properties.style || {};
+        const background = getStoredBackgroundColor(style);
+
+        return {
+          id: field.id,
+          name: field.name,
+          type: FIELD_TYPE_MAP[field.type] || field.type as FieldType,
+          page: field.position?.page || 1,
+          position: {
+            x: field.position?.x ?? 0,
+            y: field.position?.y ?? 0,
+            rotation: field.position?.rotation,
+            rotationOrigin: field.position?.rotationOrigin,
           },
-          color: field.color ? colorUtils.hex(field.color) : rgb(0, 0, 0),
-          backgroundColor: field.backgroundColor ? colorUtils.hex(field.backgroundColor) : undefined,
-          borderColor: field.borderColor ? colorUtils.hex(field.borderColor) : undefined,
-          borderWidth: field.borderWidth,
-          alignment: field.alignment as any,
-          verticalAlignment: field.verticalAlignment as any,
-          padding: field.padding,
-        },
-        validation: field.validation ? JSON.parse(field.validation) : undefined,
-        defaultValue: field.defaultValue,
-        placeholder: field.placeholder,
-        required: field.required,
-      }));
+          dimensions: {
+            width: field.position?.width ?? 0,
+            height: field.position?.height ?? 0,
+          },
+          style: {
+            font: {
+              family: style.fontFamily || 'Helvetica',
+              size: style.fontSize || 12,
+              weight: style.bold ? 'bold' : 'normal',
+              style: style.italic ? 'italic' : 'normal',
+            },
+            color: style.textColor ? colorUtils.hex(style.textColor) : rgb(0, 0, 0),
+            backgroundColor: background ? colorUtils.hex(background) : undefined,
+            borderColor: style.borderColor ? colorUtils.hex(style.borderColor) : undefined,
+            borderWidth: style.lineThickness,
+            borderStyle: style.lineStyle,
+            alignment: style.textAlign,
+            verticalAlignment: style.verticalAlignment,
+            padding: style.padding,
+            lineHeight: style.lineHeight,
+            letterSpacing: style.letterSpacing,
+            wordSpacing: style.wordSpacing,
+            overflow: style.overflow,
+            minFontSize: style.minFontSize,
+            opacity: style.opacity,
+          },
+          validation: this.toValidationRules(field.validation, properties.choiceConfig),
+          defaultValue: properties.defaultValue,
+          placeholder: properties.placeholder,
+          required: field.required || properties.isRequired,
+          barcode: properties.barcodeConfig,
+          qrcode: this.toQRCodeConfig(properties.qrcodeConfig),
+          table: this.toTableStyle(properties.tableConfig),
+          image: properties.imageConfig,
+          signature: this.toSignatureStyle(properties.signatureConfig),
+          options: properties.choiceConfig?.options,
+          optionValue: properties.choiceConfig?.optionValue,
+          visibility: properties.advanced?.visibility,
+          condition: properties.advanced?.condition,
+          expression: properties.computedConfig?.expression,
+          text: properties.text,
+        };
+      });
     } catch (error) {
       console.error('Failed to get template fields:', error);
       return [];
     }
   }
 
+  /**
+   * Convert stored QR code settings, with hex colours, to a QR code config.
+   * The background is white unless the field stores 'transparent'.
+   */
+  private toQRCodeConfig(stored?: StoredQRCodeConfig): QRCodeConfig | undefined {
+    if (!stored) {
+      return undefined;
+    }
+
+    const background = stored['backgroundColor'] || '#FFFFFF';
+    return {
+      errorCorrectionLevel: stored['errorCorrectionLevel'],
+      margin: stored['margin'],
+      scale: stored['scale'],
+      foregroundColor: stored['foregroundColor'] ? colorUtils.hex(stored['foregroundColor']) : undefined,
+      backgroundColor: background !== 'transparent' ? colorUtils.hex(background) : undefined,
+      logo: stored['logo'],
+      payload: stored['payload'],
+      utm: stored['utm'],
+    };
+  }
+
+  /**
+   * Convert stored signature settings, with a hex stroke colour, to a signature style
+   */
+  private toSignatureStyle(stored?: SignatureFieldConfig): SignatureStyle | undefined {
+    if (!stored) {
+      return undefined;
+    }
+
+    return {
+      strokeWidth: stored['strokeWidth'],
+      strokeColor: stored['strokeColor'] ? colorUtils.hex(stored['strokeColor']) : undefined,
+    };
+  }
+
+  /**
+   * Convert stored table settings, with hex colours and editor-style row styles, to a table style
+   */
+  private toTableStyle(stored?: TableConfig): TableStyle | undefined {
+    if (!stored) {
+      return undefined;
+    }
+
+    const border = stored['borderStyle'];
+    return {
+      headerStyle: this.toCellStyle(stored['headerStyle']),
+      rowStyle: this.toCellStyle(stored['rowStyle']),
+      alternatingRowStyle: this.toCellStyle(stored['alternatingRowStyle']),
+      footerStyle: this.toCellStyle(stored['footerStyle']),
+      borderStyle: border
+        ? { width: border.width, color: colorUtils.hex(border.color), style: border.style || 'solid' }
+        : undefined,
+      borders: stored['borders'],
+      cellPadding: stored['cellPadding'],
+      columnWidths: stored['columnWidths'],
+      columnAlignments: stored['columnAlignments'],
+      wrap: stored['wrap'],
+      totals: stored['totals'],
+      overflow: stored['overflow'],
+      continuation: stored['continuation'],
+    };
+  }
+
+  /**
+   * Convert a stored row style. Only the settings it stores are returned, so the rest come from the field style.
+   */
+  private toCellStyle(style?: Partial<StoredFieldStyle>): FieldStyle | undefined {
+    if (!style) {
+      return undefined;
+    }
+
+    const font: FontConfig = {};
+    if (style['fontFamily']) font.family = style['fontFamily'];
+    if (style['fontSize']) font.size = style['fontSize'];
+    if (style['bold'] !== undefined) font.weight = style['bold'] ? 'bold' : 'normal';
+    if (style['italic'] !== undefined) font.style = style['italic'] ? 'italic' : 'normal';
+
+    return {
+      font,
+      color: style['textColor'] ? colorUtils.hex(style['textColor']) : undefined,
+      backgroundColor: style['backgroundColor'] && style['backgroundColor'] !== 'transparent'
+        ? colorUtils.hex(style['backgroundColor'])
+        : undefined,
+      alignment: style['textAlign'],
+      verticalAlignment: style['verticalAlignment'],
+      lineHeight: style['lineHeight'],
+      letterSpacing: style['letterSpacing'],
+      wordSpacing: style['wordSpacing'],
+    };
+  }
+
+  /**
+   * Convert stored field validation settings to validation rules. Radio and dropdown values must also be
+   * one of the field's options.
+   */
+  private toValidationRules(
+    validation: StoredFieldValidation = {},
+    choiceConfig?: ChoiceConfig
+  ): FieldValidationRule[] | undefined {
+    const message = validation['customMessage'];
+    const rules: FieldValidationRule[] = [];
+
+    if (validation['required']) {
+      rules.push({ type: 'required', message });
+    }
+    if (validation['minLength'] !== undefined) {
+      rules.push({ type: 'minLength', value: validation['minLength'], message });
+    }
+    if (validation['maxLength'] !== undefined) {
+      rules.push({ type: 'maxLength', value: validation['maxLength'], message });
+    }
+    if (validation['pattern']) {
+      try {
+        rules.push({ type: 'pattern', value: new RegExp(validation['pattern']), message });
+      } catch (error) {
+        console.warn(`Ignoring invalid validation pattern: ${validation['pattern']}`);
+      }
+    }
+    if (Array.isArray(choiceConfig?.['options'])) {
+      const values = choiceConfig['options'].map(option => option.value);
+      rules.push({ type: 'oneOf', value: values, message });
+    }
+
+    return rules.length > 0 ? rules : undefined;
+  }
+
   /**
    * Load base PDF template from S3
    */
@@ -281,39 +608,9 @@ export class PDFGenerator {
       // Extract bucket and key from S3 URL
       const url = new URL(templateUrl);
       const bucket = url.hostname.split('.')[0];
-      const key = url.pathname.substring(1);
-
-      const command = new GetObjectCommand({
-        Bucket: bucket,
-        Key: key,
-      });
-
-      const response = await s3Client.send(command);
-      
-      if (!response.Body) {
-        throw new Error('Empty response from S3');
-      }
-
-      const chunks: Uint8Array[] = [];
-      const reader = response.Body.transformToWebStream().getReader();
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        chunks.push(value);
-      }
-
-      // Combine chunks into single buffer
-      const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-      const result = new Uint8Array(totalLength);
-      let offset = 0;
-      
-      for (const chunk of chunks) {
-        result.set(chunk, offset);
-        offset += chunk.length;
-      }
+      const key = decodeURIComponent(url.pathname.substring(1));
 
-      return result;
+      return await this.loadS3Object(bucket, key);
     } catch (error) {
       throw new PDFGenerationError(
         `Failed to load base PDF template: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -324,45 +621,162 @@ export class PDFGenerator {
   }
 
   /**
-   * Process and transform input data
+   * Load the font files of the template's custom fonts and register them with the document.
+   * A variant that cannot be loaded is skipped with a warning.
+   */
+  private async registerTemplateFonts(pdfDoc: PDFDocument, fonts: FontResource[]): Promise<ProcessingWarning[]> {
+    const warnings: ProcessingWarning[] = [];
+
+    for (const resource of fonts) {
+      if (resource.source.fallback?.length) {
+        FontManager.registerFallbacks(pdfDoc, resource.family, resource.source.fallback);
+      }
+
+      for (const variant of resource.variants) {
+        try {
+          const bytes = await fontResourceService.loadVariant(resource, variant);
+          FontManager.registerCustomFont(pdfDoc, resource.family, variant, bytes);
+        } catch (error) {
+          console.error('Failed to load font:', { family: resource.family, error });
+          warnings.push({
+            code: 'FONT_LOAD_FAILED',
+            message: `Font '${resource.family}' (${variant.weight} ${variant.style}) could not be loaded: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            suggestion: 'Fields using this font fall back to a standard font',
+          });
+        }
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Load an uploaded file (e.g. a watermark image) by its file ID
+   */
+  private async loadUploadedFile(fileId: string): Promise<Uint8Array> {
+    const file = await this.uploadedFilesRepo.findById(fileId);
+    if (!file || file.uploadStatus === 'DELETED') {
+      throw new PDFGenerationError(`Uploaded file not found: ${fileId}`, 'FILE_NOT_FOUND', { fileId });
+    }
+
+    return this.loadS3Object(file.s3Bucket, file.s3Key);
+  }
+
+  /**
+   * Read an S3 object into memory
+   */
+  private async loadS3Object(bucket: string | undefined, key: string): Promise<Uint8Array> {
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+    });
+
+    const response = await s3Client.send(command);
+    
+    if (!response.Body) {
+      throw new Error('Empty response from S3');
+    }
+
+    const chunks: Uint8Array[] = [];
+    const reader = response.Body.transformToWebStream().getReader();
+    
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+
+    // Combine chunks into single buffer
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const result = new Uint8Array(totalLength);
+    let offset = 0;
+    
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return result;
+  }
+
+  /**
+   * Process and transform input data. Computed fields are evaluated first, in dependency order, and their
+   * values added to the data under their names; one that cannot be evaluated uses its default value.
+   * Static text has its placeholders filled from the data, with warnings for those of visible fields
+   * that have no value. A value that fails its field's validation is replaced by the default value, with a
+   * warning for visible fields.
    */
-  private async processData(
-    data: Record<string, any>,
-    fields: PDFFieldDefinition[]
-  ): Promise<Record<string, any>> {
-    const processedData: Record<string, any> = {};
+  private processData(
+    data: Record<string, unknown>,
+    fields: PDFFieldDefinition[],
+    warnings: ProcessingWarning[] = [],
+    visibleFields: PDFFieldDefinition[] = fields
+  ): Record<string, unknown> {
+    const processedData: Record<string, unknown> = {};
+
+    const computed = ComputedFields.evaluate(
+      data,
+      fields.filter((field): field is PDFFieldDefinition & { expression: string } =>
+        field.type === 'computed' && !!field.expression
+      )
+    );
+    const failed = new Set(computed.errors.map(({ definition }) => definition.id));
+    for (const { definition, message } of computed.errors) {
+      console.error(`Failed to compute field ${definition.name}:`, message);
+      warnings.push({
+        code: 'COMPUTED_FIELD_ERROR',
+        message: `Field '${definition.name}' could not be computed: ${message}`,
+        field: definition.id,
+        page: definition.page,
+        suggestion: 'Check the field expression and the data it reads',
+      });
+    }
 
     for (const field of fields) {
       try {
-        // Get value from data using field name as path
-        let value = this.getFieldValue(data, field.name);
+        if (failed.has(field.id)) {
+          processedData[field.id] = field.defaultValue ?? '';
+          continue;
+        }
+
+        // Static text is shown instead of the data at the field's name
+        if (field.text !== undefined) {
+          const rendered = TextTemplate.render(field.text, computed.data);
+          if (visibleFields.includes(field)) {
+            warnings.push(...this.getTextTemplateWarnings(field, rendered));
+          }
+          processedData[field.id] = rendered.text;
+          continue;
+        }
+
+        // Get value from data using field name as path, including computed values
+        let value: unknown = this.getFieldValue(computed.data, field.name);
 
-        // Apply field validation
+        // Apply field validation. A value that fails, such as a choice outside the field's options,
+        // is replaced by the default value and reported.
         if (field.validation) {
           const validationResult = FieldValidator.validate(value, field.validation);
           if (!validationResult.isValid) {
-            console.warn(`Validation failed for field ${field.name}:`, validationResult.errors);
-            // Use default value if validation fails and it's available
+            if (visibleFields.includes(field)) {
+              warnings.push({
+                code: 'FIELD_VALIDATION_FAILED',
+                message: `Value of field '${field.name}' is not valid: ${validationResult.errors.join('; ')}`,
+                field: field.id,
+                page: field.page,
+                suggestion: field.defaultValue !== undefined
+                  ? 'The field shows its default value instead'
+                  : 'The field is left empty',
+              });
+            }
             value = field.defaultValue;
           }
         }
 
         // Apply data transformation based on field type
         if (field.type === 'date' && value) {
-          value = DataTransformer.transform(value, {
-            type: 'date',
-            options: { dateFormat: 'MM/DD/YYYY' },
-          });
+          value = DataTransformer.transform(value, DATE_FIELD_FORMAT);
         } else if (field.type === 'number' && value) {
-          value = DataTransformer.transform(value, {
-            type: 'number',
-            options: { decimals: 2 },
-          });
-        } else if (field.type === 'qrcode' && value) {
-          value = await DataTransformer.transform(value, {
-            type: 'qrcode',
-            options: {},
-          });
+          value = DataTransformer.transform(value, NUMBER_FIELD_FORMAT);
         }
 
         processedData[field.id] = value;
@@ -375,31 +789,110 @@ export class PDFGenerator {
     return processedData;
   }
 
+  /**
+   * Warnings for the placeholders of a field's text that had no value, or whose filters failed
+   */
+  private getTextTemplateWarnings(field: PDFFieldDefinition, rendered: TextTemplateResult): ProcessingWarning[] {
+    return [
+      ...[...new Set(rendered.missing)].map(path => ({
+        code: 'MISSING_PLACEHOLDER_VALUE',
+        message: `Field '${field.name}' has no data for placeholder '${path}'`,
+        field: field.id,
+        page: field.page,
+        suggestion: `Provide '${path}' in the data, or give the placeholder a default: {{${path} | default:'n/a'}}`,
+      })),
+      ...rendered.invalid.map(message => ({
+        code: 'INVALID_PLACEHOLDER_FILTER',
+        message: `Field '${field.name}': ${message}`,
+        field: field.id,
+        page: field.page,
+      })),
+    ];
+  }
+
+  /**
+   * Fields to fill: those without a visibility setting or shown always, and conditional fields whose
+   * condition holds for the request data. A condition that cannot be evaluated hides its field with a warning.
+   */
+  private getVisibleFields(
+    fields: PDFFieldDefinition[],
+    data: Record<string, unknown>,
+    warnings: ProcessingWarning[]
+  ): PDFFieldDefinition[] {
+    return fields.filter(field => {
+      if (field.visibility === 'hidden') {
+        return false;
+      }
+      if (field.visibility !== 'conditional' || !field.condition) {
+        return true;
+      }
+
+      try {
+        return ExpressionEvaluator.test(field.condition, data);
+      } catch (error) {
+        warnings.push({
+          code: 'INVALID_CONDITION',
+          message: `Condition of field '${field.name}' could not be evaluated: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          field: field.id,
+          page: field.page,
+        });
+        return false;
+      }
+    });
+  }
+
   /**
    * Get field value from data object
    */
-  private getFieldValue(data: Record<string, any>, fieldPath: string): any {
+  private getFieldValue(data: Record<string, unknown>, fieldPath: string): unknown {
     // Support dot notation for nested objects
     return DataTransformer.getNestedValue(data, fieldPath);
   }
 
   /**
-   * Fill PDF fields with processed data
+   * Fill PDF fields with processed data. Tables that overflow add continuation pages, which are counted;
+   * the template pages are returned as they were before, for placing anything else by template page number.
+   * Images are loaded on behalf of the requesting user, when there is one. In a fillable PDF, fields that
+   * can be form fields are added as form fields instead of being drawn.
    */
   private async fillPDFFields(
     pdfDoc: PDFDocument,
+    templateBytes: Uint8Array,
     fields: PDFFieldDefinition[],
-    data: Record<string, any>
-  ): Promise<{ fieldErrors: ProcessingError[]; fieldWarnings: ProcessingWarning[] }> {
+    data: Record<string, unknown>,
+    settings: PDFTemplateSettings,
+    userId?: string,
+    fillable = false
+  ): Promise<{
+    fieldErrors: ProcessingError[];
+    fieldWarnings: ProcessingWarning[];
+    pagesAdded: number;
+    templatePages: PDFPage[];
+  }> {
     const fieldErrors: ProcessingError[] = [];
     const fieldWarnings: ProcessingWarning[] = [];
 
+    // Pages are looked up before any continuation page is inserted, so fields keep their template page numbers
+    const pages = pdfDoc.getPages();
+    const continuations = this.createContinuationPages(pdfDoc, templateBytes, pages);
+
     for (const field of fields) {
       try {
-        const page = pdfDoc.getPage(field.page - 1); // 0-based page index
+        const page = pages[field.page - 1];
+        if (!page) {
+          throw new PDFGenerationError(`Page ${field.page} does not exist in the template`, 'INVALID_PAGE', {
+            page: field.page,
+          });
+        }
         const value = data[field.id];
 
-        const { errors, warnings } = await FieldProcessor.renderField(page, field, value, pdfDoc);
+        const { errors, warnings } = fillable && AcroFormBuilder.supports(field)
+          ? await AcroFormBuilder.addField(page, field, value, pdfDoc)
+          : await FieldProcessor.renderField(page, field, value, pdfDoc, {
+            settings,
+            loadImage: source => imageResourceService.load(source, userId),
+            addContinuationPage: continuations.add,
+          });
         fieldErrors.push(...errors);
         fieldWarnings.push(...warnings);
       } catch (error) {
@@ -414,13 +907,53 @@ export class PDFGenerator {
       }
     }
 
-    return { fieldErrors, fieldWarnings };
+    return { fieldErrors, fieldWarnings, pagesAdded: continuations.count(), templatePages: pages };
+  }
+
+  /**
+   * Continuation pages for table fields. Each is a copy of a template page as loaded, without any values drawn
+   * so far, inserted after the field's page and the continuation pages already added after it.
+   */
+  private createContinuationPages(
+    pdfDoc: PDFDocument,
+    templateBytes: Uint8Array,
+    pages: PDFPage[]
+  ): { add: (field: PDFFieldDefinition) => Promise<PDFPage>; count: () => number } {
+    let templateDoc: PDFDocument | undefined;
+    const lastAdded = new Map<PDFPage, PDFPage>();
+    let added = 0;
+
+    const add = async (field: PDFFieldDefinition): Promise<PDFPage> => {
+      templateDoc ??= await PDFDocument.load(templateBytes);
+
+      const source = field.table?.continuation?.page ?? field.page;
+      if (source < 1 || source > templateDoc.getPageCount()) {
+        throw new PDFGenerationError(
+          `Continuation page ${source} does not exist in the template`,
+          'INVALID_CONTINUATION_PAGE',
+          { page: source }
+        );
+      }
+
+      const [copy] = await pdfDoc.copyPages(templateDoc, [source - 1]);
+      const fieldPage = pages[field.page - 1]!;
+      const after = lastAdded.get(fieldPage) || fieldPage;
+      const page = pdfDoc.insertPage(pdfDoc.getPages().indexOf(after) + 1, copy);
+
+      lastAdded.set(fieldPage, page);
+      added++;
+      return page;
+    };
+
+    return { add, count: () => added };
   }
 
   /**
    * Apply PDF generation options
    */
-  private async applyPDFOptions(pdfDoc: PDFDocument, options: PDFGenerationOptions): Promise<void> {
+  private async applyPDFOptions(pdfDoc: PDFDocument, options: PDFGenerationOptions): Promise<ProcessingWarning[]> {
+    const warnings: ProcessingWarning[] = [];
+
     try {
       // Apply metadata
       if (options.metadata) {
@@ -436,75 +969,56 @@ export class PDFGenerator {
 
       // Apply watermark
       if (options.watermark) {
-        await this.applyWatermark(pdfDoc, options.watermark);
+        const warning = await this.applyWatermark(pdfDoc, options.watermark);
+        if (warning) warnings.push(warning);
       }
 
-      // Security options would be applied here
-      // Note: pdf-lib doesn't have built-in security features
-      // In production, you might use a different library or service for encryption
-      
+      // Security options are applied by PDFEncryptor after the document is saved
     } catch (error) {
       console.error('Failed to apply PDF options:', error);
     }
+
+    return warnings;
   }
 
   /**
-   * Apply watermark to PDF
+   * Apply watermark to PDF. A watermark that cannot be drawn is reported as a warning.
    */
-  private async applyWatermark(pdfDoc: PDFDocument, watermark: any): Promise<void> {
+  private async applyWatermark(pdfDoc: PDFDocument, watermark: WatermarkConfig): Promise<ProcessingWarning | null> {
     try {
-      const font = await FontManager.getFont(pdfDoc, 'Helvetica');
-      const pages = pdfDoc.getPages();
+      const imageBytes = watermark.image
+        ? await this.loadUploadedFile(watermark.image.fileId)
+        : undefined;
 
-      for (const page of pages) {
-        const { width, height } = page.getSize();
-        
-        page.drawText(watermark.text, {
-          x: width / 2,
-          y: height / 2,
-          size: watermark.fontSize || 48,
-          font,
-          color: watermark.color || rgb(0.8, 0.8, 0.8),
-          opacity: watermark.opacity || 0.3,
-          rotate: degrees(watermark.rotation || -45),
-        });
+      const stampedPages = await WatermarkRenderer.apply(pdfDoc, watermark, imageBytes);
+      if (stampedPages === 0) {
+        return {
+          code: 'WATERMARK_NO_PAGES',
+          message: 'The watermark page range did not match any page',
+          suggestion: `The document has ${pdfDoc.getPageCount()} page(s)`,
+        };
       }
+
+      return null;
     } catch (error) {
       console.error('Failed to apply watermark:', error);
+      return {
+        code: 'WATERMARK_FAILED',
+        message: `Watermark was not applied: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
     }
   }
 
   /**
    * Prepare the final result based on output format
    */
-  private async prepareResult(
+  private prepareResult(
     pdfBytes: Uint8Array,
-    outputFormat: string,
-    metadata: any
-  ): Promise<Partial<PDFProcessingResult>> {
-    switch (outputFormat) {
-      case 'base64':
-        return {
-          pdfBase64: Buffer.from(pdfBytes).toString('base64'),
-          metadata,
-        };
-
-      case 'url':
-        // In production, upload to S3 and return presigned URL
-        // For now, return base64
-        return {
-          pdfBase64: Buffer.from(pdfBytes).toString('base64'),
-          downloadUrl: 'data:application/pdf;base64,' + Buffer.from(pdfBytes).toString('base64'),
-          metadata,
-        };
-
-      case 'buffer':
-      default:
-        return {
-          pdfBuffer: Buffer.from(pdfBytes),
-          metadata,
-        };
-    }
+    outputFormat: NonNullable<PDFGenerationOptions['outputFormat']>
+  ): Pick<PDFProcessingResult, 'pdfBuffer' | 'pdfBase64'> {
+    return outputFormat === 'base64'
+      ? { pdfBase64: Buffer.from(pdfBytes).toString('base64') }
+      : { pdfBuffer: Buffer.from(pdfBytes) };
   }
 
   /**
@@ -512,7 +1026,7 @@ export class PDFGenerator {
    */
   async generateFromTemplate(
     templateId: string,
-    data: Record<string, any>,
+    data: Record<string, unknown>,
     options?: PDFGenerationOptions
   ): Promise<Buffer> {
     const result = await this.generatePDF({
@@ -537,7 +1051,7 @@ export class PDFGenerator {
    */
   async validateTemplateData(
     templateId: string,
-    data: Record<string, any>
+    data: Record<string, unknown>
   ): Promise<ValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -0,0 +1,115 @@
+/**
+ * Image Renderer
+ * Works out where image values come from, embeds PNG and JPEG images and draws them in a box by aspect ratio mode
+ */
+
+import { PDFDocument, PDFImage, PDFPage, pushGraphicsState, popGraphicsState, rectangle, clip, endPath } from 'pdf-lib';
+import { ImageAspectRatio, ImageSource } from './types';
+import { PDFGenerationError } from './utils';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ImageBox {
+  x: number; // left edge
+  y: number; // bottom edge
+  width: number;
+  height: number;
+}
+
+export class ImageRenderer {
+  /**
+   * Read an image value: a data URL, `{ fileId }`, `{ s3Key }` or `{ url }`, or a string holding
+   * an HTTP(S) URL, an uploaded file ID or an S3 key. Returns null for empty values.
+   */
+  static parseSource(value: unknown): { dataUrl: string } | ImageSource | null {
+    if (value && typeof value === 'object') {
+      const source = value as Record<string, unknown>;
+      for (const key of ['fileId', 's3Key', 'url'] as const) {
+        if (typeof source[key] === 'string' && source[key]) {
+          return { [key]: source[key] } as ImageSource;
+        }
+      }
+      throw new PDFGenerationError('Image value must have a fileId, s3Key or url', 'INVALID_IMAGE_SOURCE');
+    }
+
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (!text) {
+      return null;
+    }
+    if (text.startsWith('data:')) {
+      return { dataUrl: text };
+    }
+    if (/^https?:\/\//i.test(text)) {
+      return { url: text };
+    }
+    return UUID_PATTERN.test(text) ? { fileId: text } : { s3Key: text };
+  }
+
+  /**
+   * Decode a base64 PNG or JPEG data URL
+   */
+  static decodeDataUrl(dataUrl: string): Uint8Array {
+    const match = /^data:image\/(png|jpe?g);base64,(.+)$/is.exec(dataUrl);
+    if (!match) {
+      throw new PDFGenerationError('Image data URLs must be base64 PNG or JPEG', 'UNSUPPORTED_IMAGE');
+    }
+    return new Uint8Array(Buffer.from(match[2]!, 'base64'));
+  }
+
+  /**
+   * Embed an image, sniffing PNG or JPEG from its magic bytes rather than trusting a stored MIME type
+   */
+  static async embed(doc: PDFDocument, bytes: Uint8Array): Promise<PDFImage> {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+      return doc.embedPng(bytes);
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return doc.embedJpg(bytes);
+    }
+
+    throw new PDFGenerationError('Image must be a PNG or JPEG file', 'UNSUPPORTED_IMAGE');
+  }
+
+  /**
+   * Draw an image centred in a box:
+   * - 'preserve' keeps the image's natural size (one pixel per point), shrunk to fit when it is larger
+   * - 'fit' scales it up or down to the largest size that fits
+   * - 'fill' scales it to cover the box and crops what falls outside
+   */
+  static draw(page: PDFPage, image: PDFImage, box: ImageBox, aspectRatio: ImageAspectRatio = 'preserve'): void {
+    const widthScale = box.width / image.width;
+    const heightScale = box.height / image.height;
+
+    let scale: number;
+    switch (aspectRatio) {
+      case 'fill':
+        scale = Math.max(widthScale, heightScale);
+        break;
+      case 'fit':
+        scale = Math.min(widthScale, heightScale);
+        break;
+      case 'preserve':
+      default:
+        scale = Math.min(1, widthScale, heightScale);
+    }
+
+    const width = image.width * scale;
+    const height = image.height * scale;
+    const placement = {
+      x: box.x + (box.width - width) / 2,
+      y: box.y + (box.height - height) / 2,
+      width,
+      height,
+    };
+
+    if (aspectRatio !== 'fill') {
+      page.drawImage(image, placement);
+      return;
+    }
+
+    // Covering the box overshoots it on one axis, so the image is clipped to the box
+    page.pushOperators(pushGraphicsState(), rectangle(box.x, box.y, box.width, box.height), clip(), endPath());
+    page.drawImage(image, placement);
+    page.pushOperators(popGraphicsState());
+  }
+}
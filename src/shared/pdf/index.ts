@@ -1,4 +1,18 @@
 import { PDFGenerator } from './generator';
+import { PDFRasterizer } from './rasterizer';
+import { PDFEncryptor } from './encryption';
+import { PDFSigner } from './signing';
+import { AcroFormBuilder, AcroFormFiller } from './acroform';
+import { ExpressionEvaluator, ExpressionError } from './expression';
+import { ComputedFields } from './computed';
+import { TextTemplate } from './text-template';
+import { WatermarkRenderer } from './watermark';
+import { TextLayout } from './text-layout';
+import { BarcodeRenderer } from './barcode';
+import { QRCodeRenderer } from './qr-code';
+import { TableRenderer } from './table';
+import { ImageRenderer } from './image';
+import { SignatureRenderer } from './signature';
 import {
   DataTransformer,
   FieldValidator,
@@ -19,7 +33,7 @@ import type { PDFGenerationOptions, ValidationResult } from './types';
  */
 
 // Core Classes
-export { PDFGenerator };
+export { PDFGenerator, PDFRasterizer, PDFEncryptor, PDFSigner, AcroFormFiller, AcroFormBuilder, ExpressionEvaluator, ComputedFields, TextTemplate, WatermarkRenderer, BarcodeRenderer, QRCodeRenderer, TableRenderer, ImageRenderer, SignatureRenderer };
 
 // Utility Classes and Functions
 export {
@@ -27,6 +41,7 @@ export {
   FieldValidator,
   FontManager,
   FieldProcessor,
+  TextLayout,
   colorUtils,
   geometryUtils,
 };
@@ -37,6 +52,7 @@ export {
   ValidationError,
   TemplateNotFoundError,
   FieldProcessingError,
+  ExpressionError,
 };
 
 // Type Definitions
@@ -56,23 +72,59 @@ export type {
   PDFMetadata,
   PDFSecurityConfig,
   WatermarkConfig,
+  WatermarkImage,
   WatermarkPosition,
+  EncryptionAlgorithm,
+  EncryptionSummary,
+  AcroFormFillOptions,
+  AcroFormFillSummary,
+  DigitalSignatureOptions,
+  DigitalSignatureSummary,
+  SignatureSubFilter,
+  SignatureVerification,
+  SigningCredentials,
   FieldMappingConfig,
   FieldType,
   FieldPosition,
+  RotationOrigin,
   FieldDimensions,
   FieldStyle,
+  FieldOption,
+  FieldVisibility,
   PDFPageDefinition,
   PageMargins,
   PageBackground,
   PDFTemplateMetadata,
   PDFTemplateSettings,
   ProcessingMetadata,
+  BulkBatchOptions,
+  RasterFormat,
+  RasterOptions,
+  RasterizedPage,
   TableData,
   TableStyle,
+  TableTotals,
   SignatureConfig,
+  SignaturePoint,
+  SignatureStroke,
+  SignatureStyle,
+  BarcodeConfig,
+  BarcodeSymbology,
+  QRCodeConfig,
+  QRCodeLogo,
+  QRCodePayloadType,
+  UtmParameters,
+  VCardPayload,
+  WifiPayload,
+  EpcPaymentPayload,
+  ImageSource,
+  ImageLoader,
+  ImageConfig,
+  ImageAspectRatio,
+  FieldRenderContext,
   CertificateInfo,
   FontConfig,
+  TextOverflow,
   FontResource,
   FontVariant,
   FontSource,
@@ -80,6 +132,14 @@ export type {
   ColorUtils,
   GeometryUtils,
 } from './types';
+export type { TextBox, TextLayoutOptions, TextLayoutResult, TextLine } from './text-layout';
+export type { TableLayout, TableRow } from './table';
+export type { ImageBox } from './image';
+export type { SignatureBox, SignatureDrawOptions } from './signature';
+export type { PreparedSignature } from './signing';
+export type { ExpressionNode, ExpressionValue } from './expression';
+export type { ComputedDefinition, ComputedResult } from './computed';
+export type { TextTemplateResult } from './text-template';
 
 // Validation Schemas
 export {
@@ -97,11 +157,17 @@ export {
   FieldValidationRuleSchema,
   FontConfigSchema,
   FieldStyleSchema,
+  BarcodeConfigSchema,
+  QRCodeConfigSchema,
+  ImageConfigSchema,
+  SignatureStyleSchema,
+  FieldOptionSchema,
   FieldPositionSchema,
   FieldDimensionsSchema,
   TransformerOptionsSchema,
   FieldTransformerSchema,
   FieldMappingConfigSchema,
+  toPDFGenerationOptions,
 } from './schemas';
 
 // Schema Type Inference
@@ -121,7 +187,7 @@ export type {
 } from './schemas';
 
 // Constants
-export { Colors, Fonts } from './types';
+export { Colors, Fonts, RasterDefaults } from './types';
 
 // ============================================================================
 // Convenience Functions
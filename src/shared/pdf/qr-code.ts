@@ -0,0 +1,337 @@
+/**
+ * QR Code Renderer
+ * Draws QR codes as vector modules inside a field box and builds structured payloads (vCard, WiFi, EPC, URL)
+ */
+
+import { PDFImage, PDFPage } from 'pdf-lib';
+import * as QRCode from 'qrcode';
+import {
+  Colors,
+  EpcPaymentPayload,
+  QRCodeConfig,
+  UtmParameters,
+  VCardPayload,
+  WifiPayload,
+} from './types';
+import { PDFGenerationError } from './utils';
+
+// Quiet zone the QR specification asks for, in modules
+const DEFAULT_MARGIN = 4;
+const DEFAULT_LOGO_SIZE = 0.2;
+// Level H recovers about 30% of the symbol, so the logo never covers more than that
+const MAX_LOGO_SIZE = 0.3;
+
+const EPC_MAX_AMOUNT = 999999999.99;
+
+export interface QRCodeBox {
+  x: number; // left edge
+  y: number; // bottom edge
+  width: number;
+  height: number;
+}
+
+export class QRCodeRenderer {
+  /**
+   * Draw a QR code centred in the box. Without a scale the symbol, quiet zone included, is fitted to the box;
+   * a scale that does not fit is reduced. A logo is drawn over the centre on a pad of the background colour.
+   */
+  static draw(page: PDFPage, text: string, config: QRCodeConfig, box: QRCodeBox, logo?: PDFImage): void {
+    const symbol = this.encode(text, config.logo ? 'H' : config.errorCorrectionLevel);
+    const size = symbol.modules.size;
+    const margin = config.margin ?? DEFAULT_MARGIN;
+    const total = size + margin * 2;
+
+    const fitted = Math.min(box.width, box.height) / total;
+    const moduleSize = config.scale ? Math.min(config.scale, fitted) : fitted;
+    const symbolSize = total * moduleSize;
+    const left = box.x + (box.width - symbolSize) / 2;
+    const bottom = box.y + (box.height - symbolSize) / 2;
+    const top = bottom + symbolSize - margin * moduleSize;
+    const codeLeft = left + margin * moduleSize;
+
+    if (config.backgroundColor) {
+      page.drawRectangle({ x: left, y: bottom, width: symbolSize, height: symbolSize, color: config.backgroundColor });
+    }
+
+    // Every dark module goes into one filled path, so viewers show no seams between neighbouring modules;
+    // runs along a row are merged to keep the path short
+    const path: string[] = [];
+    for (let row = 0; row < size; row++) {
+      let column = 0;
+      while (column < size) {
+        if (!symbol.modules.get(row, column)) {
+          column++;
+          continue;
+        }
+
+        const start = column;
+        while (column < size && symbol.modules.get(row, column)) {
+          column++;
+        }
+        path.push(`M${start} ${row}h${column - start}v1h${start - column}z`);
+      }
+    }
+
+    page.drawSvgPath(path.join(''), {
+      x: codeLeft,
+      y: top,
+      scale: moduleSize,
+      color: config.foregroundColor || Colors.BLACK,
+    });
+
+    if (logo) {
+      const fraction = Math.min(Math.max(config.logo?.size ?? DEFAULT_LOGO_SIZE, 0), MAX_LOGO_SIZE);
+      this.drawLogo(page, logo, {
+        centerX: codeLeft + (size * moduleSize) / 2,
+        centerY: top - (size * moduleSize) / 2,
+        size: size * moduleSize * fraction,
+        pad: moduleSize,
+        config,
+      });
+    }
+  }
+
+  /**
+   * Turn a field value into QR content according to the configured payload type
+   */
+  static buildPayload(value: unknown, config: QRCodeConfig): string {
+    switch (config.payload) {
+      case 'url':
+        return this.url(String(value), config.utm);
+      case 'vcard':
+        return this.vCard(this.asObject<VCardPayload>(value, 'vcard'));
+      case 'wifi':
+        return this.wifi(this.asObject<WifiPayload>(value, 'wifi'));
+      case 'epc':
+        return this.epcPayment(this.asObject<EpcPaymentPayload>(value, 'epc'));
+      default:
+        return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+    }
+  }
+
+  /**
+   * A URL with UTM campaign parameters added, replacing any the URL already carries
+   */
+  static url(value: string, utm: UtmParameters = {}): string {
+    let url: URL;
+    try {
+      url = new URL(value.trim());
+    } catch {
+      throw this.invalid('url', `'${value}' is not a valid URL`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw this.invalid('url', 'Only http and https URLs can be encoded');
+    }
+
+    for (const [key, parameter] of Object.entries(utm) as Array<[string, string | undefined]>) {
+      if (parameter) {
+        url.searchParams.set(`utm_${key}`, parameter);
+      }
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * A vCard 3.0 contact card
+   */
+  static vCard(contact: VCardPayload): string {
+    const name = [contact.firstName, contact.lastName].filter(Boolean).join(' ');
+    if (!name && !contact.organization) {
+      throw this.invalid('vcard', 'A contact needs a name or an organization');
+    }
+
+    const escape = (value = '') => value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `N:${escape(contact.lastName)};${escape(contact.firstName)};;;`,
+      `FN:${escape(name || contact.organization)}`,
+    ];
+
+    if (contact.organization) lines.push(`ORG:${escape(contact.organization)}`);
+    if (contact.title) lines.push(`TITLE:${escape(contact.title)}`);
+    if (contact.phone) lines.push(`TEL;TYPE=WORK,VOICE:${escape(contact.phone)}`);
+    if (contact.mobile) lines.push(`TEL;TYPE=CELL:${escape(contact.mobile)}`);
+    if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${escape(contact.email)}`);
+    if (contact.url) lines.push(`URL:${escape(contact.url)}`);
+    if (contact.address) {
+      const { street, city, region, postalCode, country } = contact.address;
+      lines.push(`ADR;TYPE=WORK:;;${[street, city, region, postalCode, country].map(escape).join(';')}`);
+    }
+    if (contact.note) lines.push(`NOTE:${escape(contact.note)}`);
+    lines.push('END:VCARD');
+
+    return lines.join('\r\n');
+  }
+
+  /**
+   * WiFi network credentials in the format phone cameras join directly
+   */
+  static wifi(network: WifiPayload): string {
+    if (!network.ssid) {
+      throw this.invalid('wifi', 'WiFi network name (ssid) is required');
+    }
+
+    const encryption = network.encryption || (network.password ? 'WPA' : 'nopass');
+    if (encryption !== 'nopass' && !network.password) {
+      throw this.invalid('wifi', `A ${encryption} network needs a password`);
+    }
+
+    const escape = (value: string) => value.replace(/([\\;,:"])/g, '\\$1');
+    let payload = `WIFI:T:${encryption};S:${escape(network.ssid)};`;
+    if (encryption !== 'nopass') payload += `P:${escape(network.password!)};`;
+    if (network.hidden) payload += 'H:true;';
+
+    return `${payload};`;
+  }
+
+  /**
+   * EPC069-12 SEPA credit transfer ("GiroCode"), version 002 in UTF-8
+   */
+  static epcPayment(payment: EpcPaymentPayload): string {
+    const name = payment.name?.trim() || '';
+    if (!name || name.length > 70) {
+      throw this.invalid('epc', 'Beneficiary name is required and must be at most 70 characters');
+    }
+
+    const iban = (payment.iban || '').replace(/\s+/g, '').toUpperCase();
+    if (!this.isValidIban(iban)) {
+      throw this.invalid('epc', `'${payment.iban}' is not a valid IBAN`);
+    }
+
+    const bic = (payment.bic || '').replace(/\s+/g, '').toUpperCase();
+    if (bic && !/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic)) {
+      throw this.invalid('epc', `'${payment.bic}' is not a valid BIC`);
+    }
+
+    let amount = '';
+    if (payment.amount !== undefined) {
+      if (!(payment.amount >= 0.01 && payment.amount <= EPC_MAX_AMOUNT)) {
+        throw this.invalid('epc', `Amount must be between 0.01 and ${EPC_MAX_AMOUNT} EUR`);
+      }
+      amount = `EUR${payment.amount.toFixed(2)}`;
+    }
+
+    if (payment.purpose && !/^[A-Z]{4}$/.test(payment.purpose)) {
+      throw this.invalid('epc', 'Purpose must be a four-letter ISO 20022 code');
+    }
+    if (payment.reference && payment.remittance) {
+      throw this.invalid('epc', 'Use either a structured reference or remittance text, not both');
+    }
+    if ((payment.reference?.length ?? 0) > 35) {
+      throw this.invalid('epc', 'Reference must be at most 35 characters');
+    }
+    if ((payment.remittance?.length ?? 0) > 140) {
+      throw this.invalid('epc', 'Remittance text must be at most 140 characters');
+    }
+    if ((payment.information?.length ?? 0) > 70) {
+      throw this.invalid('epc', 'Information must be at most 70 characters');
+    }
+
+    const lines = [
+      'BCD',
+      '002',
+      '1', // UTF-8
+      'SCT',
+      bic,
+      name,
+      iban,
+      amount,
+      payment.purpose || '',
+      payment.reference || '',
+      payment.remittance || '',
+      payment.information || '',
+    ];
+
+    // Trailing empty elements are left off
+    while (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * ISO 13616 check: the rearranged IBAN, letters as numbers, is 1 modulo 97
+   */
+  static isValidIban(iban: string): boolean {
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+      return false;
+    }
+
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const character of rearranged) {
+      const digits = /\d/.test(character) ? character : String(character.charCodeAt(0) - 55);
+      for (const digit of digits) {
+        remainder = (remainder * 10 + Number(digit)) % 97;
+      }
+    }
+
+    return remainder === 1;
+  }
+
+  private static encode(text: string, errorCorrectionLevel: QRCodeConfig['errorCorrectionLevel'] = 'M'): QRCode.QRCode {
+    if (!text) {
+      throw new PDFGenerationError('QR code content is empty', 'INVALID_QR_CODE');
+    }
+
+    try {
+      return QRCode.create(text, { errorCorrectionLevel });
+    } catch (error) {
+      throw new PDFGenerationError(
+        error instanceof Error ? error.message : 'QR code could not be encoded',
+        'INVALID_QR_CODE',
+        { errorCorrectionLevel }
+      );
+    }
+  }
+
+  private static drawLogo(
+    page: PDFPage,
+    logo: PDFImage,
+    area: { centerX: number; centerY: number; size: number; pad: number; config: QRCodeConfig }
+  ): void {
+    const scale = Math.min(area.size / logo.width, area.size / logo.height);
+    const width = logo.width * scale;
+    const height = logo.height * scale;
+
+    // Modules under the logo are cleared so the logo never reads as part of the code
+    page.drawRectangle({
+      x: area.centerX - width / 2 - area.pad,
+      y: area.centerY - height / 2 - area.pad,
+      width: width + area.pad * 2,
+      height: height + area.pad * 2,
+      color: area.config.backgroundColor || Colors.WHITE,
+    });
+
+    page.drawImage(logo, {
+      x: area.centerX - width / 2,
+      y: area.centerY - height / 2,
+      width,
+      height,
+    });
+  }
+
+  private static asObject<T>(value: unknown, payload: string): T {
+    let parsed = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        throw this.invalid(payload, `A ${payload} payload must be an object`);
+      }
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw this.invalid(payload, `A ${payload} payload must be an object`);
+    }
+    return parsed as T;
+  }
+
+  private static invalid(payload: string, message: string): PDFGenerationError {
+    return new PDFGenerationError(message, 'INVALID_QR_PAYLOAD', { payload });
+  }
+}
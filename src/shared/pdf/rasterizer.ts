@@ -0,0 +1,117 @@
+/**
+ * PDF Rasterizer
+ * Renders generated PDF pages to PNG or JPEG images with pdf.js and @napi-rs/canvas
+ */
+
+import path from 'path';
+import { RasterOptions, RasterizedPage, RasterDefaults } from './types';
+import { PDFGenerationError } from './utils';
+
+// PDF user space is 72 units per inch
+const POINTS_PER_INCH = 72;
+
+const CONTENT_TYPES = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+} as const;
+
+const FILE_EXTENSIONS = {
+  png: 'png',
+  jpeg: 'jpg',
+} as const;
+
+export class PDFRasterizer {
+  /**
+   * Render the requested pages of a PDF document at the given resolution
+   */
+  async rasterize(pdfBuffer: Buffer, options: RasterOptions): Promise<RasterizedPage[]> {
+    if (options.dpi < RasterDefaults.MIN_DPI || options.dpi > RasterDefaults.MAX_DPI) {
+      throw new PDFGenerationError(
+        `DPI must be between ${RasterDefaults.MIN_DPI} and ${RasterDefaults.MAX_DPI}`,
+        'INVALID_RASTER_OPTIONS',
+        { dpi: options.dpi }
+      );
+    }
+
+    // Both libraries are loaded on first use so PDF-only invocations skip the native canvas binding
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const { createCanvas } = await import('@napi-rs/canvas');
+    const document = await pdfjs.getDocument({
+      data: new Uint8Array(pdfBuffer),
+      standardFontDataUrl: this.getStandardFontDataPath(),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise;
+
+    try {
+      if (options.page !== undefined && (options.page < 1 || options.page > document.numPages)) {
+        throw new PDFGenerationError(
+          `Page ${options.page} does not exist; the document has ${document.numPages} page(s)`,
+          'INVALID_RASTER_OPTIONS',
+          { page: options.page, pageCount: document.numPages }
+        );
+      }
+
+      const pageNumbers = options.page !== undefined
+        ? [options.page]
+        : Array.from({ length: document.numPages }, (_, i) => i + 1);
+
+      const pages: RasterizedPage[] = [];
+      for (const pageNumber of pageNumbers) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: options.dpi / POINTS_PER_INCH });
+        const width = Math.max(1, Math.round(viewport.width));
+        const height = Math.max(1, Math.round(viewport.height));
+
+        const canvas = createCanvas(width, height);
+        const context = canvas.getContext('2d');
+
+        // JPEG has no alpha channel and transparent PNGs display poorly, so paint a white page first
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+
+        // pdf.js is typed against the DOM canvas; @napi-rs/canvas implements the same 2D API
+        const renderParams = { canvas, canvasContext: context, viewport } as unknown as Parameters<typeof page.render>[0];
+        await page.render(renderParams).promise;
+        page.cleanup();
+
+        const buffer = options.format === 'jpeg'
+          ? await canvas.encode('jpeg', options.quality ?? RasterDefaults.JPEG_QUALITY)
+          : await canvas.encode('png');
+
+        pages.push({ pageNumber, width, height, buffer });
+      }
+
+      return pages;
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * MIME type for a raster format
+   */
+  static getContentType(format: RasterOptions['format']): string {
+    return CONTENT_TYPES[format];
+  }
+
+  /**
+   * File extension for a raster format
+   */
+  static getFileExtension(format: RasterOptions['format']): string {
+    return FILE_EXTENSIONS[format];
+  }
+
+  /**
+   * pdf.js loads the standard 14 fonts (used by pdf-lib's StandardFonts) from disk in Node
+   */
+  private getStandardFontDataPath(): string {
+    const baseDir = process.env['PDFJS_STANDARD_FONTS_DIR']
+      || path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts');
+    return baseDir.endsWith(path.sep) ? baseDir : `${baseDir}${path.sep}`;
+  }
+}
+
+// Export singleton instance
+export const pdfRasterizer = new PDFRasterizer();
@@ -4,6 +4,8 @@
  */
 
 import { z } from 'zod';
+import { rgb } from 'pdf-lib';
+import type { PDFGenerationOptions } from './types';
 
 // ============================================================================
 // Core Request Schemas
@@ -16,7 +18,7 @@ export const PDFGenerationRequestSchema = z.object({
     'Data object cannot be empty'
   ),
   options: z.object({
-    outputFormat: z.enum(['buffer', 'base64', 'url']).optional().default('buffer'),
+    outputFormat: z.enum(['buffer', 'base64']).optional().default('buffer'),
     metadata: z.object({
       title: z.string().optional(),
       author: z.string().optional(),
@@ -26,9 +28,15 @@ export const PDFGenerationRequestSchema = z.object({
       producer: z.string().optional(),
     }).optional(),
     watermark: z.object({
-      text: z.string().min(1, 'Watermark text is required'),
+      text: z.string().min(1, 'Watermark text cannot be empty').optional(),
+      image: z.object({
+        fileId: z.string().uuid('Watermark image file ID must be a valid UUID'),
+        width: z.number().positive().optional(),
+        scale: z.number().positive().optional(),
+      }).optional(),
+      font: z.string().optional().default('Helvetica'),
       opacity: z.number().min(0).max(1).optional().default(0.3),
-      rotation: z.number().optional().default(-45),
+      rotation: z.number().optional(),
       fontSize: z.number().positive().optional().default(48),
       color: z.object({
         r: z.number().min(0).max(1),
@@ -36,14 +44,25 @@ export const PDFGenerationRequestSchema = z.object({
         b: z.number().min(0).max(1),
       }).optional(),
       position: z.union([
-        z.enum(['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right']),
+        z.enum(['center', 'top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right']),
         z.object({
           x: z.number(),
           y: z.number(),
         }),
       ]).optional().default('center'),
-    }).optional(),
+      margin: z.number().min(0).optional().default(36),
+      tiled: z.boolean().optional().default(false),
+      tileSpacing: z.number().min(0).optional().default(48),
+      pages: z.union([
+        z.string().regex(/^\s*\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*\s*$/, 'Page range must look like "1-3,5"'),
+        z.array(z.number().int().positive()),
+      ]).optional(),
+    }).refine(
+      (watermark) => !!watermark.text || !!watermark.image,
+      'Watermark text or image is required'
+    ).optional(),
     security: z.object({
+      algorithm: z.enum(['aes-128', 'aes-256']).optional().default('aes-256'),
       ownerPassword: z.string().optional(),
       userPassword: z.string().optional(),
       permissions: z.object({
@@ -54,9 +73,21 @@ export const PDFGenerationRequestSchema = z.object({
         fillingForms: z.boolean().optional().default(true),
         contentAccessibility: z.boolean().optional().default(true),
         documentAssembly: z.boolean().optional().default(false),
-        degradedPrinting: z.boolean().optional().default(true),
+        // Follows printing unless it is set
+        degradedPrinting: z.boolean().optional(),
       }).optional(),
     }).optional(),
+    digitalSignature: z.object({
+      fieldId: z.string().uuid().optional(),
+      reason: z.string().max(200).optional(),
+      location: z.string().max(200).optional(),
+      contactInfo: z.string().max(200).optional(),
+      subFilter: z.enum(['ETSI.CAdES.detached', 'adbe.pkcs7.detached']).optional(),
+    }).optional(),
+    acroForm: z.object({
+      flatten: z.boolean().optional().default(false),
+    }).optional(),
+    fillable: z.boolean().optional().default(false),
     quality: z.enum(['low', 'medium', 'high']).optional().default('medium'),
   }).optional().default({}),
 });
@@ -66,7 +97,7 @@ export const PDFGenerationRequestSchema = z.object({
 // ============================================================================
 
 export const FieldValidationRuleSchema = z.object({
-  type: z.enum(['required', 'minLength', 'maxLength', 'pattern', 'custom']),
+  type: z.enum(['required', 'minLength', 'maxLength', 'pattern', 'oneOf', 'custom']),
   value: z.any().optional(),
   message: z.string().optional(),
   customValidator: z.function().optional(),
@@ -109,6 +140,11 @@ export const FieldStyleSchema = z.object({
   ]).optional(),
   alignment: z.enum(['left', 'center', 'right', 'justify']).optional().default('left'),
   verticalAlignment: z.enum(['top', 'middle', 'bottom']).optional().default('top'),
+  lineHeight: z.number().positive().optional(),
+  letterSpacing: z.number().optional(),
+  wordSpacing: z.number().optional(),
+  overflow: z.enum(['shrink', 'truncate', 'overflow']).optional(),
+  minFontSize: z.number().positive().optional(),
   opacity: z.number().min(0).max(1).optional().default(1),
 });
 
@@ -116,6 +152,61 @@ export const FieldPositionSchema = z.object({
   x: z.number().min(0),
   y: z.number().min(0),
   rotation: z.number().optional().default(0),
+  rotationOrigin: z.union([
+    z.enum(['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right']),
+    z.object({
+      x: z.number(),
+      y: z.number(),
+    }),
+  ]).optional(),
+});
+
+export const BarcodeConfigSchema = z.object({
+  symbology: z.enum(['code128', 'code39', 'ean13', 'upca', 'itf', 'pdf417', 'datamatrix']),
+  showText: z.boolean().optional().default(true),
+  textSize: z.number().positive().optional(),
+  checkDigit: z.boolean().optional(),
+});
+
+export const QRCodeConfigSchema = z.object({
+  errorCorrectionLevel: z.enum(['L', 'M', 'Q', 'H']).optional(),
+  margin: z.number().int().min(0).optional(),
+  scale: z.number().positive().optional(),
+  foregroundColor: z.object({
+    r: z.number().min(0).max(1),
+    g: z.number().min(0).max(1),
+    b: z.number().min(0).max(1),
+  }).optional(),
+  backgroundColor: z.object({
+    r: z.number().min(0).max(1),
+    g: z.number().min(0).max(1),
+    b: z.number().min(0).max(1),
+  }).optional(),
+  logo: z.object({
+    fileId: z.string().min(1),
+    size: z.number().positive().max(0.3).optional(),
+  }).optional(),
+  payload: z.enum(['text', 'url', 'vcard', 'wifi', 'epc']).optional(),
+  utm: z.object({
+    source: z.string().optional(),
+    medium: z.string().optional(),
+    campaign: z.string().optional(),
+    term: z.string().optional(),
+    content: z.string().optional(),
+  }).optional(),
+});
+
+export const ImageConfigSchema = z.object({
+  aspectRatio: z.enum(['preserve', 'fit', 'fill']).optional(),
+});
+
+export const SignatureStyleSchema = z.object({
+  strokeWidth: z.number().positive().optional(),
+  strokeColor: z.object({
+    r: z.number().min(0).max(1),
+    g: z.number().min(0).max(1),
+    b: z.number().min(0).max(1),
+  }).optional(),
 });
 
 export const FieldDimensionsSchema = z.object({
@@ -123,6 +214,11 @@ export const FieldDimensionsSchema = z.object({
   height: z.number().positive(),
 });
 
+export const FieldOptionSchema = z.object({
+  value: z.string().min(1, 'Option value is required'),
+  label: z.string().optional(),
+});
+
 export const PDFFieldDefinitionSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1, 'Field name is required'),
@@ -139,6 +235,8 @@ export const PDFFieldDefinitionSchema = z.object({
     'qrcode',
     'barcode',
     'table',
+    'computed',
+    'label',
   ]),
   page: z.number().positive().default(1),
   position: FieldPositionSchema,
@@ -148,6 +246,18 @@ export const PDFFieldDefinitionSchema = z.object({
   defaultValue: z.any().optional(),
   placeholder: z.string().optional(),
   required: z.boolean().optional().default(false),
+  barcode: BarcodeConfigSchema.optional(),
+  qrcode: QRCodeConfigSchema.optional(),
+  image: ImageConfigSchema.optional(),
+  signature: SignatureStyleSchema.optional(),
+  options: z.array(FieldOptionSchema).optional(),
+  optionValue: z.string().optional(),
+  visibility: z.enum(['always', 'conditional', 'hidden']).optional(),
+  condition: z.string().max(1000).optional(),
+  expression: z.string().max(1000).optional(),
+  text: z.string().max(5000).optional(),
+  // Table schemas are declared further down with the table data
+  table: z.lazy(() => TableStyleSchema).optional(),
 });
 
 // ============================================================================
@@ -187,6 +297,7 @@ export const TransformerOptionsSchema = z.object({
   aspectRatio: z.enum(['preserve', 'fill', 'fit']).optional().default('preserve'),
   
   // QR/Barcode transformers
+  symbology: z.enum(['code128', 'code39', 'ean13', 'upca', 'itf', 'pdf417', 'datamatrix']).optional(),
   errorCorrectionLevel: z.enum(['L', 'M', 'Q', 'H']).optional().default('M'),
   margin: z.number().min(0).optional().default(4),
   scale: z.number().positive().optional().default(4),
@@ -291,14 +402,33 @@ export const TableStyleSchema = z.object({
   headerStyle: FieldStyleSchema.optional(),
   rowStyle: FieldStyleSchema.optional(),
   alternatingRowStyle: FieldStyleSchema.optional(),
+  footerStyle: FieldStyleSchema.optional(),
   borderStyle: BorderStyleSchema.optional(),
+  borders: z.enum(['all', 'horizontal', 'outer']).optional(),
   cellPadding: z.number().min(0).optional().default(4),
   columnWidths: z.array(z.number().positive()).optional(),
+  columnAlignments: z.array(z.enum(['left', 'center', 'right'])).optional(),
+  wrap: z.boolean().optional(),
+  totals: z.object({
+    columns: z.array(z.number().int().min(0)).min(1),
+    label: z.string().optional(),
+    labelColumn: z.number().int().min(0).optional(),
+    decimals: z.number().int().min(0).max(10).optional(),
+  }).optional(),
+  overflow: z.enum(['paginate', 'truncate']).optional(),
+  continuation: z.object({
+    page: z.number().int().positive().optional(),
+    x: z.number().min(0).optional(),
+    y: z.number().min(0).optional(),
+    height: z.number().positive().optional(),
+    maxPages: z.number().int().min(1).max(100).optional(),
+  }).optional(),
 });
 
 export const TableDataSchema = z.object({
   headers: z.array(z.string()).min(1, 'At least one header is required'),
   rows: z.array(z.array(z.any())),
+  footers: z.array(z.array(z.any())).optional(),
   style: TableStyleSchema.optional(),
 });
 
@@ -318,6 +448,13 @@ export const SignatureConfigSchema = z.object({
   type: z.enum(['image', 'drawn', 'typed']),
   imageUrl: z.string().url().optional(),
   signatureData: z.string().optional(),
+  strokes: z.array(z.union([
+    z.array(z.union([
+      z.object({ x: z.number(), y: z.number() }),
+      z.tuple([z.number(), z.number()]),
+    ])),
+    z.object({ points: z.array(z.object({ x: z.number(), y: z.number() })) }),
+  ])).optional(),
   timestamp: z.boolean().optional().default(false),
   certificateInfo: CertificateInfoSchema.optional(),
 });
@@ -351,7 +488,23 @@ export const ProcessingMetadataSchema = z.object({
   pageCount: z.number().positive(),
   fieldsProcessed: z.number().min(0),
   fieldsSkipped: z.number().min(0),
+  pagesAdded: z.number().min(0).optional(),
   version: z.string(),
+  acroForm: z.object({
+    fieldsFilled: z.number().min(0),
+    unmatchedKeys: z.array(z.string()),
+    unfilledFields: z.array(z.string()),
+    flattened: z.boolean(),
+  }).optional(),
+  digitalSignature: z.object({
+    signed: z.boolean(),
+    subFilter: z.enum(['ETSI.CAdES.detached', 'adbe.pkcs7.detached']),
+    signerName: z.string(),
+    certificateSerial: z.string(),
+    signedAt: z.string().datetime(),
+    fieldName: z.string(),
+    visible: z.boolean(),
+  }).optional(),
 });
 
 export const PDFProcessingResultSchema = z.object({
@@ -385,6 +538,10 @@ export const BooleanFieldValueSchema = z.boolean();
 export const ImageFieldValueSchema = z.union([
   z.string().url(),
   z.string().startsWith('data:image/'),
+  z.string().min(1), // uploaded file ID or S3 key
+  z.object({ fileId: z.string().min(1) }),
+  z.object({ s3Key: z.string().min(1) }),
+  z.object({ url: z.string().url() }),
 ]);
 export const QRCodeFieldValueSchema = z.string().min(1);
 export const CheckboxFieldValueSchema = z.boolean();
@@ -394,15 +551,22 @@ export const DropdownFieldValueSchema = z.string();
 // Bulk Processing Schemas
 // ============================================================================
 
+// Records per bulk request; larger runs are split into several requests
+export const BULK_MAX_RECORDS = 5000;
+
 export const BulkPDFGenerationRequestSchema = z.object({
   templateId: z.string().uuid(),
-  dataArray: z.array(z.record(z.string(), z.any())).min(1, 'At least one data record is required'),
+  dataArray: z.array(z.record(z.string(), z.any()))
+    .min(1, 'At least one data record is required')
+    .max(BULK_MAX_RECORDS, `At most ${BULK_MAX_RECORDS} data records are allowed per request`),
   options: PDFGenerationRequestSchema.shape.options.optional(),
   batchOptions: z.object({
     concurrent: z.number().min(1).max(10).optional().default(3),
     failFast: z.boolean().optional().default(false),
     includeIndex: z.boolean().optional().default(true),
+    archive: z.boolean().optional().default(false),
   }).optional().default({}),
+  mode: z.enum(['sync', 'async']).optional().default('sync'),
 });
 
 export const BulkPDFProcessingResultSchema = z.object({
@@ -413,9 +577,17 @@ export const BulkPDFProcessingResultSchema = z.object({
   results: z.array(z.object({
     index: z.number(),
     success: z.boolean(),
+    pdfId: z.string().optional(),
+    fileName: z.string().optional(),
     result: PDFProcessingResultSchema.optional(),
     error: z.string().optional(),
   })),
+  archive: z.object({
+    fileName: z.string(),
+    s3Key: z.string(),
+    fileSize: z.number().min(0),
+    downloadUrl: z.string().url(),
+  }).optional(),
   processingTime: z.number().min(0),
 });
 
@@ -435,3 +607,29 @@ export type PDFProcessingResultInput = z.infer<typeof PDFProcessingResultSchema>
 export type ValidationResultInput = z.infer<typeof ValidationResultSchema>;
 export type BulkPDFGenerationRequestInput = z.infer<typeof BulkPDFGenerationRequestSchema>;
 export type BulkPDFProcessingResultInput = z.infer<typeof BulkPDFProcessingResultSchema>;
+
+// ============================================================================
+// Conversion Helpers
+// ============================================================================
+
+type ColorInput = { r: number; g: number; b: number };
+
+const toRGB = (color?: ColorInput) => (color ? rgb(color.r, color.g, color.b) : undefined);
+
+/**
+ * Convert validated request options (plain {r, g, b} colors) to generator options
+ */
+export function toPDFGenerationOptions(
+  options?: Partial<NonNullable<PDFGenerationRequestInput['options']>>
+): PDFGenerationOptions {
+  if (!options) {
+    return {};
+  }
+
+  const { watermark, ...rest } = options;
+
+  return {
+    ...rest,
+    ...(watermark && { watermark: { ...watermark, color: toRGB(watermark.color) } }),
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * Signature Renderer
+ * Draws signatures captured on screen, as SVG or as pen strokes, as vector paths scaled into a field box
+ */
+
+import { LineCapStyle, LineJoinStyle, PDFPage, RGB, popGraphicsState, pushGraphicsState, setLineJoin } from 'pdf-lib';
+import { Colors, SignatureConfig, SignaturePoint, SignatureStroke } from './types';
+import { PDFGenerationError } from './utils';
+
+const DEFAULT_STROKE_WIDTH = 1.5;
+
+// Bezier approximation of a quarter circle
+const KAPPA = 0.5523;
+
+const PATH_DATA_PATTERN = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,+\-\s]*$/;
+const PATH_TOKEN_PATTERN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+const ELEMENT_PATTERN = /<(path|polyline|polygon|line|circle|ellipse)\b([^>]*)>/gi;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export interface SignatureBox {
+  x: number; // left edge
+  y: number; // bottom edge
+  width: number;
+  height: number;
+}
+
+export interface SignatureDrawOptions {
+  strokeWidth?: number;
+  color?: RGB;
+}
+
+// One drawable piece of a signature, in capture coordinates (y down)
+interface SignatureShape {
+  path: string;
+  fill: boolean;
+  stroke: boolean;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export class SignatureRenderer {
+  /**
+   * Draw a drawn signature scaled uniformly to fit the box and centred in it. Only the inked area is fitted,
+   * so blank space around the signature on the capture canvas is dropped. The stroke width is in points
+   * and does not change with the scale.
+   */
+  static draw(page: PDFPage, signature: SignatureConfig, box: SignatureBox, options: SignatureDrawOptions = {}): void {
+    const shapes = this.getShapes(signature);
+    const bounds = this.getBounds(shapes);
+    const strokeWidth = options.strokeWidth ?? DEFAULT_STROKE_WIDTH;
+    const color = options.color || Colors.BLACK;
+
+    // Keep the ink inside the box: strokes extend half their width past the path
+    const inset = Math.min(strokeWidth / 2, box.width / 2, box.height / 2);
+    const inkWidth = bounds.maxX - bounds.minX;
+    const inkHeight = bounds.maxY - bounds.minY;
+    const scales = [
+      inkWidth > 0 ? (box.width - inset * 2) / inkWidth : Infinity,
+      inkHeight > 0 ? (box.height - inset * 2) / inkHeight : Infinity,
+    ];
+    const scale = Math.min(...scales) === Infinity ? 1 : Math.min(...scales);
+
+    // Path coordinates are relative to the top-left corner of the ink
+    const x = box.x + (box.width - inkWidth * scale) / 2 - bounds.minX * scale;
+    const y = box.y + (box.height + inkHeight * scale) / 2 + bounds.minY * scale;
+
+    page.pushOperators(pushGraphicsState(), setLineJoin(LineJoinStyle.Round));
+    for (const shape of shapes) {
+      page.drawSvgPath(shape.path, {
+        x,
+        y,
+        scale,
+        color: shape.fill ? color : undefined,
+        borderColor: shape.stroke ? color : undefined,
+        // The path is scaled, line widths with it
+        borderWidth: shape.stroke ? strokeWidth / scale : undefined,
+        borderLineCap: LineCapStyle.Round,
+      });
+    }
+    page.pushOperators(popGraphicsState());
+  }
+
+  /**
+   * Turn a drawn signature into shapes. Point strokes and bare path data are stroked; shapes from an
+   * SVG document are filled and stroked as their fill and stroke attributes say.
+   */
+  private static getShapes(signature: SignatureConfig): SignatureShape[] {
+    let shapes: SignatureShape[];
+    if (signature.strokes && signature.strokes.length > 0) {
+      shapes = signature.strokes
+        .map(stroke => this.strokeToPath(stroke))
+        .filter(path => path !== '')
+        .map(path => ({ path, fill: false, stroke: true }));
+    } else {
+      const data = this.decodeSignatureData(signature.signatureData || '');
+      shapes = data.startsWith('<')
+        ? this.parseSvg(data)
+        : data ? [{ path: this.checkPath(data), fill: false, stroke: true }] : [];
+    }
+
+    if (shapes.length === 0) {
+      throw this.invalid('Drawn signature has no strokes');
+    }
+    return shapes;
+  }
+
+  private static decodeSignatureData(data: string): string {
+    const text = data.trim();
+    const match = /^data:image\/svg\+xml(;base64)?,(.*)$/is.exec(text);
+    if (!match) {
+      return text;
+    }
+    return match[1]
+      ? Buffer.from(match[2]!, 'base64').toString('utf8').trim()
+      : decodeURIComponent(match[2]!).trim();
+  }
+
+  /**
+   * A single point becomes a zero-length line, which round caps draw as a dot
+   */
+  private static strokeToPath(stroke: SignatureStroke): string {
+    const points = Array.isArray(stroke) ? stroke : stroke.points;
+    const coordinates = (points || [])
+      .map(point => this.toCoordinates(point))
+      .filter(point => Number.isFinite(point.x) && Number.isFinite(point.y));
+
+    if (coordinates.length === 0) {
+      return '';
+    }
+    const [first, ...rest] = coordinates;
+    const lines = rest.length > 0 ? rest.map(point => `L${point.x} ${point.y}`).join('') : `L${first!.x} ${first!.y}`;
+    return `M${first!.x} ${first!.y}${lines}`;
+  }
+
+  private static toCoordinates(point: SignaturePoint | [number, number]): SignaturePoint {
+    return Array.isArray(point) ? { x: Number(point[0]), y: Number(point[1]) } : { x: Number(point.x), y: Number(point.y) };
+  }
+
+  /**
+   * Read the shapes of an SVG document. Transforms are not applied.
+   */
+  private static parseSvg(svg: string): SignatureShape[] {
+    const shapes: SignatureShape[] = [];
+
+    for (const [, tag, attributeText] of svg.matchAll(ELEMENT_PATTERN)) {
+      const attributes: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of attributeText!.matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[name!.toLowerCase()] = doubleQuoted ?? singleQuoted ?? '';
+      }
+
+      const path = this.elementToPath(tag!.toLowerCase(), attributes);
+      if (!path) continue;
+
+      // SVG fills shapes unless told not to and strokes them only when told to
+      const fill = (attributes['fill'] ?? '').trim().toLowerCase() !== 'none' && tag!.toLowerCase() !== 'line';
+      const stroke = !!attributes['stroke'] && attributes['stroke'].trim().toLowerCase() !== 'none';
+      if (fill || stroke) {
+        shapes.push({ path, fill, stroke });
+      }
+    }
+
+    return shapes;
+  }
+
+  private static elementToPath(tag: string, attributes: Record<string, string>): string {
+    const number = (name: string) => parseFloat(attributes[name] ?? '0') || 0;
+
+    switch (tag) {
+      case 'path':
+        return this.checkPath(attributes['d'] ?? '');
+
+      case 'line':
+        return `M${number('x1')} ${number('y1')}L${number('x2')} ${number('y2')}`;
+
+      case 'polyline':
+      case 'polygon': {
+        const values = (attributes['points'] ?? '').match(PATH_TOKEN_PATTERN)?.map(Number) ?? [];
+        const points: Array<[number, number]> = [];
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          points.push([values[i]!, values[i + 1]!]);
+        }
+        const path = this.strokeToPath(points);
+        return path && tag === 'polygon' ? `${path}Z` : path;
+      }
+
+      case 'circle':
+      case 'ellipse': {
+        const rx = tag === 'circle' ? number('r') : number('rx');
+        const ry = tag === 'circle' ? number('r') : number('ry');
+        return rx > 0 && ry > 0 ? this.ellipsePath(number('cx'), number('cy'), rx, ry) : '';
+      }
+
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Four Bezier quarters, whose control points stay inside the ellipse's bounding box
+   */
+  private static ellipsePath(cx: number, cy: number, rx: number, ry: number): string {
+    const kx = rx * KAPPA;
+    const ky = ry * KAPPA;
+    return [
+      `M${cx - rx} ${cy}`,
+      `C${cx - rx} ${cy - ky} ${cx - kx} ${cy - ry} ${cx} ${cy - ry}`,
+      `C${cx + kx} ${cy - ry} ${cx + rx} ${cy - ky} ${cx + rx} ${cy}`,
+      `C${cx + rx} ${cy + ky} ${cx + kx} ${cy + ry} ${cx} ${cy + ry}`,
+      `C${cx - kx} ${cy + ry} ${cx - rx} ${cy + ky} ${cx - rx} ${cy}Z`,
+    ].join('');
+  }
+
+  private static checkPath(path: string): string {
+    if (!PATH_DATA_PATTERN.test(path)) {
+      throw this.invalid('Signature path data is not valid SVG path data');
+    }
+    return path.trim();
+  }
+
+  /**
+   * The box around every point and control point of the shapes. Control points can lie outside a curve,
+   * so curves may be bounded a little loosely; arcs are bounded by their end points and radii.
+   */
+  private static getBounds(shapes: SignatureShape[]): Bounds {
+    const bounds: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    const add = (x: number, y: number) => {
+      bounds.minX = Math.min(bounds.minX, x);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxX = Math.max(bounds.maxX, x);
+      bounds.maxY = Math.max(bounds.maxY, y);
+    };
+
+    for (const shape of shapes) {
+      this.walkPath(shape.path, add);
+    }
+
+    if (!Number.isFinite(bounds.minX) || !Number.isFinite(bounds.minY)) {
+      throw this.invalid('Drawn signature has no strokes');
+    }
+    return bounds;
+  }
+
+  /**
+   * Visit the absolute position of every point in a path. Numbers after a command repeat it;
+   * numbers after a moveto are linetos.
+   */
+  private static walkPath(path: string, visit: (x: number, y: number) => void): void {
+    const tokens = path.match(PATH_TOKEN_PATTERN) || [];
+    let command = '';
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    let index = 0;
+    const next = () => {
+      const value = Number(tokens[index++]);
+      if (!Number.isFinite(value)) {
+        throw this.invalid('Signature path data is not valid SVG path data');
+      }
+      return value;
+    };
+
+    while (index < tokens.length) {
+      if (/^[a-z]$/i.test(tokens[index]!)) {
+        command = tokens[index++]!;
+        if (command === 'Z' || command === 'z') {
+          x = startX;
+          y = startY;
+          continue;
+        }
+      } else if (!command || command === 'Z' || command === 'z') {
+        throw this.invalid('Signature path data must start with a moveto');
+      }
+
+      const relative = command === command.toLowerCase();
+      const originX = relative ? x : 0;
+      const originY = relative ? y : 0;
+
+      switch (command.toUpperCase()) {
+        case 'M':
+          x = originX + next();
+          y = originY + next();
+          startX = x;
+          startY = y;
+          command = relative ? 'l' : 'L';
+          break;
+        case 'L':
+        case 'T':
+          x = originX + next();
+          y = originY + next();
+          break;
+        case 'H':
+          x = originX + next();
+          break;
+        case 'V':
+          y = originY + next();
+          break;
+        case 'C':
+          visit(originX + next(), originY + next());
+          visit(originX + next(), originY + next());
+          x = originX + next();
+          y = originY + next();
+          break;
+        case 'S':
+        case 'Q':
+          visit(originX + next(), originY + next());
+          x = originX + next();
+          y = originY + next();
+          break;
+        case 'A': {
+          const rx = Math.abs(next());
+          const ry = Math.abs(next());
+          next(); // rotation
+          next(); // large arc flag
+          next(); // sweep flag
+          visit(x - rx, y - ry);
+          visit(x + rx, y + ry);
+          x = originX + next();
+          y = originY + next();
+          visit(x - rx, y - ry);
+          visit(x + rx, y + ry);
+          break;
+        }
+        default:
+          throw this.invalid(`Unsupported path command '${command}'`);
+      }
+
+      visit(x, y);
+    }
+  }
+
+  private static invalid(message: string): PDFGenerationError {
+    return new PDFGenerationError(message, 'INVALID_SIGNATURE');
+  }
+}
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import * as forge from 'node-forge';
+import { PDFArray, PDFDocument, PDFName, PDFPage } from 'pdf-lib';
+import { PDFSigner } from './signing';
+import { PDFFieldDefinition, SignatureSubFilter, SigningCredentials } from './types';
+
+/**
+ * Self-signed RSA certificate valid for a day, as a PKCS#12 file and as PEM text
+ */
+function createSigningCredentials(password: string): { pkcs12: SigningCredentials; pem: SigningCredentials } {
+  const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const keyPem = privateKey.export({ type: 'pkcs1', format: 'pem' }).toString();
+  const key = forge.pki.privateKeyFromPem(keyPem);
+
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.setRsaPublicKey(key.n, key.e);
+  certificate.serialNumber = '0a1b2c';
+  certificate.validity.notBefore = new Date(Date.now() - 60 * 1000);
+  certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const subject = [{ name: 'commonName', value: 'Test Signer' }];
+  certificate.setSubject(subject);
+  certificate.setIssuer(subject);
+  certificate.sign(key, forge.md.sha256.create());
+
+  const p12 = forge.pkcs12.toPkcs12Asn1(key, certificate, password, { algorithm: '3des' });
+
+  return {
+    pkcs12: { pkcs12: Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary'), password },
+    pem: { certificate: forge.pki.certificateToPem(certificate), privateKey: keyPem },
+  };
+}
+
+async function signBlankDocument(credentials: SigningCredentials, subFilter?: SignatureSubFilter) {
+  const doc = await PDFDocument.create();
+  doc.addPage([612, 792]);
+
+  const prepared = await PDFSigner.prepare(doc, credentials, { subFilter, reason: 'Approval', location: 'Berlin' });
+  return PDFSigner.sign(await doc.save({ useObjectStreams: false }), prepared);
+}
+
+function annotationCount(page: PDFPage): number {
+  return page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)?.size() ?? 0;
+}
+
+describe('PDFSigner', () => {
+  const credentials = createSigningCredentials('secret');
+
+  it.each<SignatureSubFilter>(['ETSI.CAdES.detached', 'adbe.pkcs7.detached'])(
+    'signs and verifies a document with %s',
+    async (subFilter) => {
+      const { pdfBytes, summary } = await signBlankDocument(credentials.pkcs12, subFilter);
+
+      expect(summary).toMatchObject({
+        signed: true,
+        subFilter,
+        signerName: 'Test Signer',
+        certificateSerial: '0A1B2C',
+        fieldName: 'Signature',
+        visible: false,
+      });
+      expect(Buffer.from(pdfBytes).toString('latin1')).toContain(`/SubFilter /${subFilter}`);
+      expect(PDFSigner.verify(pdfBytes)).toEqual({
+        valid: true,
+        coversWholeDocument: true,
+        signerName: 'Test Signer',
+      });
+    }
+  );
+
+  it('signs with PEM credentials', async () => {
+    const { pdfBytes } = await signBlankDocument(credentials.pem);
+
+    expect(PDFSigner.verify(pdfBytes)).toMatchObject({ valid: true, coversWholeDocument: true });
+  });
+
+  it('detects a document changed after signing', async () => {
+    const { pdfBytes } = await signBlankDocument(credentials.pkcs12);
+    const changed = Buffer.from(pdfBytes);
+    const mediaBox = changed.indexOf('/MediaBox', 0, 'latin1');
+    changed.write('/MediaBoy', mediaBox, 'latin1');
+
+    expect(PDFSigner.verify(changed)).toEqual({
+      valid: false,
+      coversWholeDocument: true,
+      error: 'Document was changed after it was signed',
+    });
+  });
+
+  it('reports appended content as not covering the whole document', async () => {
+    const { pdfBytes } = await signBlankDocument(credentials.pkcs12);
+    const appended = Buffer.concat([Buffer.from(pdfBytes), Buffer.from('\n% appended\n', 'latin1')]);
+
+    expect(PDFSigner.verify(appended)).toMatchObject({ valid: true, coversWholeDocument: false });
+  });
+
+  it('rejects a PKCS#12 file opened with the wrong password', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+
+    await expect(PDFSigner.prepare(doc, { ...credentials.pkcs12, password: 'wrong' }, {}))
+      .rejects.toMatchObject({ code: 'INVALID_SIGNING_CREDENTIALS' });
+  });
+
+  it('puts the widget on the page given for the field, not its template page number', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([612, 792]);
+    doc.addPage([612, 792]);
+    // The template pages, then a continuation page inserted after the first, as an overflowing table adds
+    const templatePages = doc.getPages();
+    doc.insertPage(1, [612, 792]);
+
+    const definition: PDFFieldDefinition = {
+      id: 'signature-field',
+      name: 'Approval',
+      type: 'signature',
+      page: 2,
+      position: { x: 72, y: 72 },
+      dimensions: { width: 200, height: 60 },
+      style: {},
+    };
+    const prepared = await PDFSigner.prepare(doc, credentials.pkcs12, {}, { definition, page: templatePages[1]! });
+
+    expect(prepared).toMatchObject({ fieldName: 'Approval', visible: true });
+    expect(doc.getPages().map(annotationCount)).toEqual([0, 0, 1]);
+  });
+});
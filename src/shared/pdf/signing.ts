@@ -0,0 +1,497 @@
+/**
+ * PDF Digital Signatures
+ * Signs saved PDF bytes with a detached CMS (PKCS#7) signature over a ByteRange, as PAdES or adbe.pkcs7.detached,
+ * with an optional visible appearance on a signature field
+ */
+
+import crypto from 'crypto';
+import * as forge from 'node-forge';
+import { PDFDocument, PDFHexString, PDFName, PDFNumber, PDFPage, PDFString, drawText, degrees } from 'pdf-lib';
+import {
+  Colors,
+  DigitalSignatureOptions,
+  DigitalSignatureSummary,
+  PDFFieldDefinition,
+  SignatureConfig,
+  SignatureSubFilter,
+  SignatureVerification,
+  SigningCredentials,
+} from './types';
+import { FontManager, PDFGenerationError } from './utils';
+
+const { asn1 } = forge;
+
+// Bytes reserved for the CMS signature; certificate chains of a few certificates fit comfortably
+const SIGNATURE_CONTENTS_SIZE = 16384;
+
+// Written in place of the byte range while saving, then overwritten with the real offsets
+const BYTE_RANGE_PLACEHOLDER = 9999999999;
+
+const MAX_APPEARANCE_FONT_SIZE = 8;
+
+const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+} as const;
+
+// The private key and certificates a document is signed with, signer certificate first
+interface Signer {
+  privateKey: crypto.KeyObject;
+  certificates: Buffer[];
+  name: string;
+  serialNumber: string;
+}
+
+export interface PreparedSignature {
+  signer: Signer;
+  subFilter: SignatureSubFilter;
+  signedAt: Date;
+  fieldName: string;
+  visible: boolean;
+}
+
+type Asn1 = forge.asn1.Asn1;
+
+export class PDFSigner {
+  /**
+   * Add an unsigned signature field to a document before it is saved: a signature dictionary with a ByteRange
+   * and Contents placeholder, and a widget on the bound field's box. When the field has no image, drawn or typed
+   * signature of its own, the widget shows the signer, date, reason and location. Without a bound field the
+   * signature is invisible. The field comes with the page it was drawn on, which continuation pages inserted
+   * before it have moved away from its template page number.
+   * The document must then be saved without object streams and passed to `sign`.
+   */
+  static async prepare(
+    doc: PDFDocument,
+    credentials: SigningCredentials,
+    options: DigitalSignatureOptions,
+    field?: { definition: PDFFieldDefinition; value?: SignatureConfig; page: PDFPage }
+  ): Promise<PreparedSignature> {
+    const signer = this.loadSigner(credentials);
+    const subFilter = options.subFilter || 'ETSI.CAdES.detached';
+    const certificateInfo = field?.value?.certificateInfo;
+    const reason = options.reason ?? certificateInfo?.reason;
+    const location = options.location ?? certificateInfo?.location;
+    const signedAt = new Date();
+
+    const context = doc.context;
+    const signature = context.obj({
+      Type: 'Sig',
+      Filter: 'Adobe.PPKLite',
+      SubFilter: subFilter,
+      ByteRange: [0, BYTE_RANGE_PLACEHOLDER, BYTE_RANGE_PLACEHOLDER, BYTE_RANGE_PLACEHOLDER],
+      Contents: PDFHexString.of('0'.repeat(SIGNATURE_CONTENTS_SIZE * 2)),
+      M: PDFString.fromDate(signedAt),
+      Name: PDFString.of(certificateInfo?.signerName || signer.name),
+    });
+    if (reason) signature.set(PDFName.of('Reason'), PDFString.of(reason));
+    if (location) signature.set(PDFName.of('Location'), PDFString.of(location));
+    if (options.contactInfo) signature.set(PDFName.of('ContactInfo'), PDFString.of(options.contactInfo));
+
+    const page = field?.page ?? doc.getPage(0);
+    const box = field
+      ? { ...field.definition.position, ...field.definition.dimensions }
+      : { x: 0, y: 0, width: 0, height: 0 };
+
+    const lines = [
+      `Digitally signed by ${signer.name}`,
+      `Date: ${signedAt.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC')}`,
+      ...(reason ? [`Reason: ${reason}`] : []),
+      ...(location ? [`Location: ${location}`] : []),
+    ];
+    // A field that already shows a signature keeps it as the visible signature; an empty one shows the details
+    const appearance = field && !this.hasInk(field.value)
+      ? await this.buildAppearance(doc, lines, box.width, box.height)
+      : context.formXObject([], { BBox: [0, 0, box.width, box.height] });
+
+    const acroForm = doc.catalog.getOrCreateAcroForm();
+    const fieldName = this.getUniqueFieldName(
+      acroForm.getAllFields().map(([existing]) => existing.getPartialName()),
+      field?.definition.name || 'Signature'
+    );
+
+    const widget = context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Sig',
+      T: PDFString.of(fieldName),
+      Rect: [box.x, box.y, box.x + box.width, box.y + box.height],
+      F: 4, // print
+      P: page.ref,
+      V: context.register(signature),
+      AP: { N: context.register(appearance) },
+    });
+    const widgetRef = context.register(widget);
+
+    page.node.addAnnot(widgetRef);
+    acroForm.addField(widgetRef);
+    // Signatures exist and the document must only be appended to
+    acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+    return { signer, subFilter, signedAt, fieldName, visible: !!field };
+  }
+
+  /**
+   * Sign the bytes of a document saved after `prepare`. The byte range is filled in and a detached CMS signature
+   * over everything except the Contents value is written into the reserved space.
+   */
+  static sign(pdfBytes: Uint8Array, prepared: PreparedSignature): { pdfBytes: Uint8Array; summary: DigitalSignatureSummary } {
+    const pdf = Buffer.from(pdfBytes);
+    const contentsPlaceholder = `<${'0'.repeat(SIGNATURE_CONTENTS_SIZE * 2)}>`;
+    const contentsStart = pdf.indexOf(contentsPlaceholder, 0, 'latin1');
+    const rangeMatch = /\/ByteRange\s*(\[\s*0\s+9999999999\s+9999999999\s+9999999999\s*\])/.exec(pdf.toString('latin1'));
+    if (contentsStart < 0 || !rangeMatch) {
+      throw new PDFGenerationError('Signature placeholder not found in the saved document', 'SIGNING_ERROR');
+    }
+
+    // The signature covers everything but the Contents hex string, delimiters included
+    const contentsEnd = contentsStart + contentsPlaceholder.length;
+    const byteRange = [0, contentsStart, contentsEnd, pdf.length - contentsEnd];
+    const rangeText = rangeMatch[1]!;
+    const filled = `[${byteRange.join(' ')}]`;
+    if (filled.length > rangeText.length) {
+      throw new PDFGenerationError('Document is too large to sign', 'SIGNING_ERROR');
+    }
+    pdf.write(filled.padEnd(rangeText.length, ' '), rangeMatch.index + rangeMatch[0].length - rangeText.length, 'latin1');
+
+    const digest = crypto.createHash('sha256')
+      .update(pdf.subarray(0, contentsStart))
+      .update(pdf.subarray(contentsEnd))
+      .digest();
+    const cms = this.buildSignedData(digest, prepared);
+    if (cms.length > SIGNATURE_CONTENTS_SIZE) {
+      throw new PDFGenerationError('Signature is larger than the space reserved for it', 'SIGNING_ERROR', {
+        size: cms.length,
+        reserved: SIGNATURE_CONTENTS_SIZE,
+      });
+    }
+    pdf.write(cms.toString('hex').padEnd(SIGNATURE_CONTENTS_SIZE * 2, '0'), contentsStart + 1, 'latin1');
+
+    return {
+      pdfBytes: new Uint8Array(pdf),
+      summary: {
+        signed: true,
+        subFilter: prepared.subFilter,
+        signerName: prepared.signer.name,
+        certificateSerial: prepared.signer.serialNumber,
+        signedAt: prepared.signedAt.toISOString(),
+        fieldName: prepared.fieldName,
+        visible: prepared.visible,
+      },
+    };
+  }
+
+  /**
+   * Check the last signature in a document: that its message digest matches the bytes in its byte range and that
+   * the signature over its signed attributes verifies with the signer's certificate. Certificate trust is not checked.
+   */
+  static verify(pdfBytes: Uint8Array): SignatureVerification {
+    const pdf = Buffer.from(pdfBytes);
+    const ranges = [...pdf.toString('latin1').matchAll(/\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g)];
+    const last = ranges[ranges.length - 1];
+    if (!last) {
+      return { valid: false, coversWholeDocument: false, error: 'Document has no signature' };
+    }
+
+    const [start, firstLength, secondStart, secondLength] = last.slice(1, 5).map(Number) as [number, number, number, number];
+    const coversWholeDocument = start === 0 && secondStart + secondLength === pdf.length;
+
+    try {
+      const contents = Buffer.from(pdf.subarray(firstLength + 1, secondStart - 1).toString('latin1'), 'hex');
+      const contentInfo = asn1.fromDer(contents.subarray(0, this.getDerLength(contents)).toString('binary'));
+      const signedData = this.children(this.children(contentInfo)[1]!)[0]!;
+      const parts = this.children(signedData);
+      // Certificates are the optional [0] field
+      const certificates = parts.find(part => part.tagClass === asn1.Class.CONTEXT_SPECIFIC && (part.type as number) === 0);
+      const signerInfo = this.children(parts[parts.length - 1]!)[0]!;
+      const [, sid, digestAlgorithm, signedAttributes, , signatureValue] = this.children(signerInfo);
+
+      if (asn1.derToOid(this.children(digestAlgorithm!)[0]!.value as string) !== OIDS.sha256) {
+        throw new Error('Only SHA-256 signatures can be verified');
+      }
+
+      const digest = crypto.createHash('sha256')
+        .update(pdf.subarray(start, start + firstLength))
+        .update(pdf.subarray(secondStart, secondStart + secondLength))
+        .digest();
+      const attributes = this.children(signedAttributes!);
+      const messageDigest = attributes.find(attribute => this.attributeType(attribute) === OIDS.messageDigest);
+      const signedDigest = messageDigest && this.children(this.children(messageDigest)[1]!)[0]!.value as string;
+      if (!signedDigest || !Buffer.from(signedDigest, 'binary').equals(digest)) {
+        return { valid: false, coversWholeDocument, error: 'Document was changed after it was signed' };
+      }
+
+      // The signature is over the attributes encoded as a SET rather than the implicitly tagged field
+      const attributesDer = this.toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, attributes));
+      const serial = this.toDer(this.children(sid!)[1]!);
+      const signerCertificate = this.children(certificates!).find(entry => {
+        const tbs = this.children(this.children(entry)[0]!);
+        const offset = tbs[0]!.tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+        return this.toDer(tbs[offset]!).equals(serial);
+      });
+      if (!signerCertificate) {
+        throw new Error('Signer certificate is missing');
+      }
+
+      const certificate = new crypto.X509Certificate(this.toDer(signerCertificate));
+      const valid = crypto.verify(
+        'sha256',
+        attributesDer,
+        certificate.publicKey,
+        Buffer.from(signatureValue!.value as string, 'binary')
+      );
+
+      return {
+        valid,
+        coversWholeDocument,
+        signerName: this.getCommonName(certificate),
+        ...(!valid && { error: 'Signature does not match the signer certificate' }),
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        coversWholeDocument,
+        error: error instanceof Error ? error.message : 'Signature could not be read',
+      };
+    }
+  }
+
+  /**
+   * Read the private key and certificates from a PKCS#12 file or PEM text. The signer certificate is the one
+   * whose public key matches the private key; it must be valid now.
+   */
+  private static loadSigner(credentials: SigningCredentials): Signer {
+    let privateKey: crypto.KeyObject;
+    let certificates: Buffer[];
+
+    try {
+      if ('pkcs12' in credentials) {
+        ({ privateKey, certificates } = this.readPkcs12(credentials.pkcs12, credentials.password || ''));
+      } else {
+        privateKey = crypto.createPrivateKey({ key: credentials.privateKey, passphrase: credentials.passphrase });
+        certificates = (credentials.certificate.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [])
+          .map(pem => new crypto.X509Certificate(pem).raw);
+      }
+    } catch (error) {
+      throw new PDFGenerationError(
+        `Signing credentials could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INVALID_SIGNING_CREDENTIALS'
+      );
+    }
+
+    if (privateKey.asymmetricKeyType !== 'rsa' && privateKey.asymmetricKeyType !== 'ec') {
+      throw new PDFGenerationError('Only RSA and EC signing keys are supported', 'INVALID_SIGNING_CREDENTIALS');
+    }
+
+    const publicKey = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'der' });
+    const signerIndex = certificates.findIndex(certificate =>
+      new crypto.X509Certificate(certificate).publicKey.export({ type: 'spki', format: 'der' }).equals(publicKey)
+    );
+    if (signerIndex < 0) {
+      throw new PDFGenerationError('No certificate matches the signing key', 'INVALID_SIGNING_CREDENTIALS');
+    }
+
+    const signerCertificate = certificates[signerIndex]!;
+    const x509 = new crypto.X509Certificate(signerCertificate);
+    const now = Date.now();
+    if (now < Date.parse(x509.validFrom) || now > Date.parse(x509.validTo)) {
+      throw new PDFGenerationError(`Signing certificate is not valid now (valid until ${x509.validTo})`, 'SIGNING_CERTIFICATE_EXPIRED');
+    }
+
+    return {
+      privateKey,
+      certificates: [signerCertificate, ...certificates.filter((_, index) => index !== signerIndex)],
+      name: this.getCommonName(x509),
+      serialNumber: x509.serialNumber,
+    };
+  }
+
+  private static readPkcs12(bytes: Uint8Array, password: string): { privateKey: crypto.KeyObject; certificates: Buffer[] } {
+    const p12 = forge.pkcs12.pkcs12FromAsn1(asn1.fromDer(Buffer.from(bytes).toString('binary')), password);
+
+    // Keys and certificates forge cannot decode (EC) are handed back as ASN.1
+    const keyBags = [
+      ...(p12.getBags({ bagType: forge.pki.oids['pkcs8ShroudedKeyBag']! })[forge.pki.oids['pkcs8ShroudedKeyBag']!] || []),
+      ...(p12.getBags({ bagType: forge.pki.oids['keyBag']! })[forge.pki.oids['keyBag']!] || []),
+    ];
+    const keyBag = keyBags[0];
+    if (!keyBag) {
+      throw new Error('PKCS#12 file has no private key');
+    }
+    const keyInfo = keyBag.key
+      ? forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(keyBag.key))
+      : keyBag.asn1;
+    if (!keyInfo) {
+      throw new Error('PKCS#12 private key could not be read');
+    }
+
+    const certBags = p12.getBags({ bagType: forge.pki.oids['certBag']! })[forge.pki.oids['certBag']!] || [];
+    const certificates = certBags.flatMap(bag => {
+      const certificate = bag.cert ? forge.pki.certificateToAsn1(bag.cert) : bag.asn1;
+      return certificate ? [this.toDer(certificate)] : [];
+    });
+
+    return {
+      privateKey: crypto.createPrivateKey({ key: this.toDer(keyInfo), format: 'der', type: 'pkcs8' }),
+      certificates,
+    };
+  }
+
+  /**
+   * Build a detached CMS SignedData (RFC 5652) over a SHA-256 digest. PAdES signatures carry the
+   * signing-certificate-v2 attribute and take their time from the signature dictionary; PKCS#7 signatures
+   * carry a signing-time attribute.
+   */
+  private static buildSignedData(digest: Buffer, prepared: PreparedSignature): Buffer {
+    const { signer } = prepared;
+    const sha256 = this.sequence([this.oid(OIDS.sha256), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')]);
+
+    const attributes = [
+      this.attribute(OIDS.contentType, this.oid(OIDS.data)),
+      this.attribute(OIDS.messageDigest, this.octets(digest)),
+      prepared.subFilter === 'ETSI.CAdES.detached'
+        ? this.attribute(OIDS.signingCertificateV2, this.sequence([
+          this.sequence([this.sequence([this.octets(crypto.createHash('sha256').update(signer.certificates[0]!).digest())])]),
+        ]))
+        : this.attribute(OIDS.signingTime, asn1.create(
+          asn1.Class.UNIVERSAL, asn1.Type.UTCTIME, false, asn1.dateToUtcTime(prepared.signedAt)
+        )),
+    ];
+    // DER orders the members of a SET by their encoding
+    attributes.sort((a, b) => Buffer.compare(this.toDer(a), this.toDer(b)));
+
+    const signedAttributes = this.toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, attributes));
+    const isRsa = signer.privateKey.asymmetricKeyType === 'rsa';
+    const signature = crypto.sign('sha256', signedAttributes, signer.privateKey);
+
+    const certificate = asn1.fromDer(signer.certificates[0]!.toString('binary'));
+    const tbs = this.children(this.children(certificate)[0]!);
+    // The version is an explicitly tagged first field when present
+    const offset = tbs[0]!.tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+
+    const signerInfo = this.sequence([
+      this.integer(1),
+      this.sequence([tbs[offset + 2]!, tbs[offset]!]), // issuer and serial number
+      sha256,
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, attributes),
+      isRsa
+        ? this.sequence([this.oid(OIDS.rsaEncryption), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')])
+        : this.sequence([this.oid(OIDS.ecdsaWithSha256)]),
+      this.octets(signature),
+    ]);
+
+    const signedData = this.sequence([
+      this.integer(1),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [sha256]),
+      this.sequence([this.oid(OIDS.data)]),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, signer.certificates.map(der => asn1.fromDer(der.toString('binary')))),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [signerInfo]),
+    ]);
+
+    return this.toDer(this.sequence([
+      this.oid(OIDS.signedData),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+    ]));
+  }
+
+  /**
+   * The visible signature: the signature details in Helvetica, sized to fit the box and set from its bottom-left corner
+   */
+  private static async buildAppearance(doc: PDFDocument, lines: string[], width: number, height: number) {
+    const font = await FontManager.getFont(doc, 'Helvetica');
+    const padding = 2;
+    const widest = Math.max(...lines.map(line => font.widthOfTextAtSize(line, 1)));
+    const size = Math.max(1, Math.min(
+      MAX_APPEARANCE_FONT_SIZE,
+      (width - padding * 2) / widest,
+      (height - padding * 2) / (lines.length * 1.2)
+    ));
+
+    const operators = lines.flatMap((line, index) => drawText(font.encodeText(line), {
+      color: Colors.BLACK,
+      font: 'F1',
+      size,
+      rotate: degrees(0),
+      xSkew: degrees(0),
+      ySkew: degrees(0),
+      x: padding,
+      y: padding + (lines.length - 1 - index) * size * 1.2 + size * 0.2,
+    }));
+
+    return doc.context.formXObject(operators, {
+      BBox: [0, 0, width, height],
+      Resources: { Font: { F1: font.ref } },
+    });
+  }
+
+  private static hasInk(value?: SignatureConfig): boolean {
+    return !!value && !!(value.imageUrl || value.signatureData || value.strokes?.length);
+  }
+
+  private static getUniqueFieldName(existing: Array<string | undefined>, name: string): string {
+    let candidate = name;
+    for (let index = 2; existing.includes(candidate); index++) {
+      candidate = `${name} ${index}`;
+    }
+    return candidate;
+  }
+
+  private static getCommonName(certificate: crypto.X509Certificate): string {
+    return /^CN=(.+)$/m.exec(certificate.subject)?.[1]?.trim() || certificate.subject.split('\n')[0] || 'Unknown signer';
+  }
+
+  private static attributeType(attribute: Asn1): string {
+    return asn1.derToOid(this.children(attribute)[0]!.value as string);
+  }
+
+  private static attribute(type: string, value: Asn1): Asn1 {
+    return this.sequence([this.oid(type), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [value])]);
+  }
+
+  private static sequence(items: Asn1[]): Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, items);
+  }
+
+  private static oid(id: string): Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(id).getBytes());
+  }
+
+  private static integer(value: number): Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(value).getBytes());
+  }
+
+  private static octets(bytes: Buffer): Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes.toString('binary'));
+  }
+
+  private static children(node: Asn1): Asn1[] {
+    if (!Array.isArray(node.value)) {
+      throw new Error('Unexpected signature structure');
+    }
+    return node.value;
+  }
+
+  /**
+   * Length of the DER element at the start of a buffer, which the zero padding of the Contents follows
+   */
+  private static getDerLength(bytes: Buffer): number {
+    const length = bytes[1] ?? 0;
+    if (length < 0x80) {
+      return 2 + length;
+    }
+
+    const lengthBytes = length & 0x7f;
+    return 2 + lengthBytes + bytes.subarray(2, 2 + lengthBytes).reduce((total, byte) => total * 256 + byte, 0);
+  }
+
+  private static toDer(node: Asn1): Buffer {
+    return Buffer.from(asn1.toDer(node).getBytes(), 'binary');
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Table Renderer
+ * Lays out table rows with column widths, wrapped cells and row styles, and draws them with borders inside a field box
+ */
+
+import { PDFDocument, PDFFont, PDFPage } from 'pdf-lib';
+import { BorderStyle, Colors, FieldStyle, PDFFieldDefinition, TableData, TableStyle, TableTotals } from './types';
+import { TextBox, TextLayout } from './text-layout';
+import { FieldProcessor, FontManager } from './utils';
+
+const DEFAULT_FONT_SIZE = 10;
+const DEFAULT_CELL_PADDING = 4;
+// Laid out against a box this tall, cells never run out of room while being measured
+const MEASURE_HEIGHT = 1e6;
+
+export interface TableRow {
+  kind: 'header' | 'body' | 'footer';
+  cells: string[];
+  style: FieldStyle;
+  font: PDFFont;
+  height: number;
+}
+
+export interface TableLayout {
+  columnWidths: number[];
+  width: number;
+  header?: TableRow; // repeated at the top of every part of the table that is drawn
+  rows: TableRow[]; // body rows followed by footer and totals rows
+  cellPadding: number;
+  wrap: boolean;
+  columnAlignments: TableStyle['columnAlignments'];
+  borderStyle?: BorderStyle;
+  borders: NonNullable<TableStyle['borders']>;
+}
+
+export class TableRenderer {
+  /**
+   * Measure every row of a table for a field. The field's table style is combined with the style sent with the data,
+   * and rows are as tall as their tallest wrapped cell.
+   */
+  static async layout(doc: PDFDocument, field: PDFFieldDefinition, data: TableData): Promise<TableLayout> {
+    const style: TableStyle = { ...field.table, ...this.defined(data.style || {}) };
+    const columns = Math.max(data.headers.length, ...data.rows.map(row => row.length), 1);
+    const cellPadding = style.cellPadding ?? DEFAULT_CELL_PADDING;
+    const wrap = style.wrap !== false;
+    const columnWidths = this.getColumnWidths(columns, field.dimensions.width, style.columnWidths);
+
+    // Cells take the field's text settings, not its box decoration
+    const { font, color, alignment, verticalAlignment, lineHeight, letterSpacing, wordSpacing } = field.style;
+    const base: FieldStyle = {
+      font: { size: DEFAULT_FONT_SIZE, ...this.defined(font || {}) },
+      color,
+      alignment,
+      verticalAlignment,
+      lineHeight,
+      letterSpacing,
+      wordSpacing,
+    };
+    const bold: FieldStyle = { font: { weight: 'bold' } };
+
+    const fonts = new Map<string, Promise<PDFFont>>();
+    const measure = async (kind: TableRow['kind'], cells: unknown[], rowStyle: FieldStyle): Promise<TableRow> => {
+      const fontKey = JSON.stringify(rowStyle.font);
+      if (!fonts.has(fontKey)) {
+        fonts.set(fontKey, FontManager.getFont(doc, rowStyle.font, field.id));
+      }
+      const rowFont = await fonts.get(fontKey)!;
+
+      const texts = columnWidths.map((_, index) => this.toText(cells[index]));
+      const heights = texts.map((text, index) => {
+        const layout = TextLayout.layout(
+          text,
+          { x: 0, y: 0, width: columnWidths[index]!, height: MEASURE_HEIGHT },
+          this.getTextOptions(rowStyle, rowFont, cellPadding, wrap)
+        );
+        return layout.height;
+      });
+
+      return { kind, cells: texts, style: rowStyle, font: rowFont, height: Math.max(...heights) + cellPadding * 2 };
+    };
+
+    const header = data.headers.length > 0
+      ? await measure('header', data.headers, this.mergeStyles(base, bold, style.headerStyle))
+      : undefined;
+
+    const rows: TableRow[] = [];
+    for (const [index, row] of data.rows.entries()) {
+      const striped = index % 2 === 1 ? style.alternatingRowStyle : undefined;
+      rows.push(await measure('body', row, this.mergeStyles(base, style.rowStyle, striped)));
+    }
+
+    const footerStyle = this.mergeStyles(base, bold, style.footerStyle);
+    const footers = [...(data.footers || [])];
+    if (style.totals) {
+      footers.push(this.getTotalsRow(data.rows, style.totals, columns));
+    }
+    for (const footer of footers) {
+      rows.push(await measure('footer', footer, footerStyle));
+    }
+
+    return {
+      columnWidths,
+      width: field.dimensions.width,
+      header,
+      rows,
+      cellPadding,
+      wrap,
+      columnAlignments: style.columnAlignments,
+      borderStyle: style.borderStyle,
+      borders: style.borders || 'all',
+    };
+  }
+
+  /**
+   * Draw the header and the rows from `start` that fit in the box, top down. At least one row is always drawn.
+   * Returns the index of the first row that did not fit, or the row count when every row was drawn.
+   */
+  static draw(page: PDFPage, table: TableLayout, box: TextBox, start = 0): number {
+    const top = box.y + box.height;
+    const placed: TableRow[] = table.header ? [table.header] : [];
+    let bottom = top - (table.header?.height ?? 0);
+    let next = start;
+
+    while (next < table.rows.length) {
+      const row = table.rows[next]!;
+      if (bottom - row.height < box.y - 0.01 && next > start) {
+        break;
+      }
+      placed.push(row);
+      bottom -= row.height;
+      next++;
+    }
+
+    let rowTop = top;
+    for (const row of placed) {
+      this.drawRow(page, table, row, box.x, rowTop);
+      rowTop -= row.height;
+    }
+
+    this.drawBorders(page, table, box.x, top, placed.map(row => row.height));
+    return next;
+  }
+
+  private static drawRow(page: PDFPage, table: TableLayout, row: TableRow, left: number, top: number): void {
+    if (row.style.backgroundColor) {
+      page.drawRectangle({
+        x: left,
+        y: top - row.height,
+        width: table.width,
+        height: row.height,
+        color: row.style.backgroundColor,
+      });
+    }
+
+    const options = this.getTextOptions(row.style, row.font, table.cellPadding, table.wrap);
+    let x = left;
+    row.cells.forEach((text, index) => {
+      const width = table.columnWidths[index]!;
+      const layout = TextLayout.layout(text, { x, y: top - row.height, width, height: row.height }, {
+        ...options,
+        alignment: table.columnAlignments?.[index] || row.style.alignment,
+      });
+
+      TextLayout.draw(page, layout, {
+        font: row.font,
+        color: row.style.color || Colors.BLACK,
+        letterSpacing: row.style.letterSpacing,
+        wordSpacing: row.style.wordSpacing,
+      });
+      x += width;
+    });
+  }
+
+  /**
+   * Draw the grid for the drawn rows: every line, the lines between rows only, or just the outline
+   */
+  private static drawBorders(page: PDFPage, table: TableLayout, left: number, top: number, heights: number[]): void {
+    const border = table.borderStyle;
+    if (!border || border.width <= 0 || heights.length === 0) {
+      return;
+    }
+
+    const right = left + table.width;
+    const bottom = top - heights.reduce((total, height) => total + height, 0);
+    const { borderDashArray, borderLineCap } = FieldProcessor.getDashOptions(border.style, border.width);
+    const line = (start: { x: number; y: number }, end: { x: number; y: number }) =>
+      page.drawLine({
+        start,
+        end,
+        thickness: border.width,
+        color: border.color,
+        dashArray: borderDashArray,
+        lineCap: borderLineCap,
+      });
+
+    if (table.borders !== 'outer') {
+      let y = top;
+      for (const height of heights.slice(0, -1)) {
+        y -= height;
+        line({ x: left, y }, { x: right, y });
+      }
+    }
+
+    if (table.borders === 'all') {
+      let x = left;
+      for (const width of table.columnWidths.slice(0, -1)) {
+        x += width;
+        line({ x, y: top }, { x, y: bottom });
+      }
+    }
+
+    if (table.borders === 'horizontal') {
+      line({ x: left, y: top }, { x: right, y: top });
+      line({ x: left, y: bottom }, { x: right, y: bottom });
+      return;
+    }
+
+    page.drawRectangle({
+      x: left,
+      y: bottom,
+      width: table.width,
+      height: top - bottom,
+      borderColor: border.color,
+      borderWidth: border.width,
+      borderDashArray,
+      borderLineCap,
+    });
+  }
+
+  private static getTextOptions(style: FieldStyle, font: PDFFont, cellPadding: number, wrap: boolean) {
+    return {
+      font,
+      fontSize: style.font?.size || DEFAULT_FONT_SIZE,
+      multiline: wrap,
+      alignment: style.alignment,
+      verticalAlignment: style.verticalAlignment,
+      padding: cellPadding,
+      lineHeight: style.lineHeight,
+      letterSpacing: style.letterSpacing,
+      wordSpacing: style.wordSpacing,
+      overflow: wrap ? 'overflow' as const : 'truncate' as const,
+    };
+  }
+
+  /**
+   * Column widths are relative: they are scaled so the columns fill the table. Columns without a width
+   * get the average of the widths that were given, or an equal share when none were.
+   */
+  private static getColumnWidths(columns: number, tableWidth: number, widths: number[] = []): number[] {
+    const given = widths.slice(0, columns).filter(width => width > 0);
+    const fallback = given.length > 0 ? given.reduce((total, width) => total + width, 0) / given.length : 1;
+    const resolved = Array.from({ length: columns }, (_, index) => {
+      const width = widths[index];
+      return width !== undefined && width > 0 ? width : fallback;
+    });
+    const total = resolved.reduce((sum, width) => sum + width, 0);
+
+    return resolved.map(width => (width / total) * tableWidth);
+  }
+
+  /**
+   * A footer row with the label and the sum of each totalled column. Values that are not numbers count as zero;
+   * numeric strings may carry currency symbols and thousands separators.
+   */
+  private static getTotalsRow(rows: unknown[][], totals: TableTotals, columns: number): string[] {
+    const decimals = totals.decimals ?? 2;
+    const row: string[] = Array.from({ length: columns }, () => '');
+    row[totals.labelColumn ?? 0] = totals.label ?? 'Total';
+
+    for (const column of totals.columns) {
+      if (column < 0 || column >= columns) continue;
+
+      const sum = rows.reduce((total, cells) => total + this.toNumber(cells[column]), 0);
+      row[column] = sum.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+    }
+
+    return row;
+  }
+
+  private static toNumber(value: unknown): number {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : 0;
+    }
+
+    const parsed = parseFloat(String(value ?? '').replace(/[^\d.-]/g, ''));
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+
+  private static toText(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+  }
+
+  /**
+   * Later styles override earlier ones key by key; fonts are merged the same way
+   */
+  private static mergeStyles(...styles: Array<FieldStyle | undefined>): FieldStyle {
+    return styles.reduce<FieldStyle>((merged, style) => {
+      if (!style) {
+        return merged;
+      }
+      return {
+        ...merged,
+        ...this.defined(style),
+        font: { ...merged.font, ...this.defined(style.font || {}) },
+      };
+    }, {});
+  }
+
+  private static defined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Text Layout
+ * Wraps and positions text inside a field box, honouring alignment, vertical alignment, padding and spacing
+ */
+
+import { PDFPage, PDFFont, RGB, pushGraphicsState, popGraphicsState, setCharacterSpacing } from 'pdf-lib';
+import { FieldStyle, TextOverflow } from './types';
+
+// Line height as a multiple of the font size when the style does not set one
+const DEFAULT_LINE_HEIGHT = 1.2;
+// Shrink-to-fit never goes below this size unless the field sets its own minimum
+const DEFAULT_MIN_FONT_SIZE = 6;
+const SHRINK_STEP = 0.5;
+
+export interface TextBox {
+  x: number; // left edge
+  y: number; // bottom edge
+  width: number;
+  height: number;
+}
+
+export interface TextLayoutOptions {
+  font: PDFFont;
+  fontSize: number;
+  multiline?: boolean;
+  alignment?: FieldStyle['alignment'];
+  verticalAlignment?: FieldStyle['verticalAlignment'];
+  padding?: FieldStyle['padding'];
+  lineHeight?: number; // multiple of the font size
+  letterSpacing?: number; // points added after each character
+  wordSpacing?: number; // points added to each space
+  overflow?: TextOverflow; // lines that do not fit are dropped when omitted
+  minFontSize?: number; // smallest size 'shrink' may use
+}
+
+export interface TextLine {
+  text: string;
+  x: number; // left edge of the first glyph
+  y: number; // baseline
+  width: number; // natural width, including letter and word spacing
+  gap: number; // distance from the end of one word to the start of the next
+}
+
+export interface TextLayoutResult {
+  lines: TextLine[]; // lines to draw
+  hiddenLines: number; // wrapped lines that did not fit below the box
+  overflowsWidth: boolean; // a line is wider than the box
+  truncated: boolean; // text was cut and ended with an ellipsis
+  fontSize: number; // size the lines were laid out at, smaller than requested after shrinking
+  height: number; // from the top of the first visible line to the bottom of the last, without padding
+}
+
+export class TextLayout {
+  /**
+   * Lay out text inside a box. Multiline text wraps at word boundaries (or inside words that are
+   * too long) and keeps explicit line breaks; single-line text is laid out as one line.
+   *
+   * Text that does not fit is handled by the overflow policy: 'shrink' steps the font size down to
+   * minFontSize and truncates what still does not fit, 'truncate' ends the last visible line with an
+   * ellipsis, and 'overflow' draws every line even outside the box.
+   */
+  static layout(text: string, box: TextBox, options: TextLayoutOptions): TextLayoutResult {
+    if (options.overflow !== 'shrink') {
+      return this.layoutAtSize(text, box, options, options.fontSize);
+    }
+
+    const minFontSize = Math.min(options.minFontSize ?? DEFAULT_MIN_FONT_SIZE, options.fontSize);
+    for (let fontSize = options.fontSize; fontSize > minFontSize; fontSize -= SHRINK_STEP) {
+      const layout = this.layoutAtSize(text, box, { ...options, overflow: undefined }, fontSize);
+      if (layout.hiddenLines === 0 && !layout.overflowsWidth) {
+        return layout;
+      }
+    }
+
+    return this.layoutAtSize(text, box, { ...options, overflow: 'truncate' }, minFontSize);
+  }
+
+  private static layoutAtSize(text: string, box: TextBox, options: TextLayoutOptions, fontSize: number): TextLayoutResult {
+    const { font } = options;
+    const content = this.getContentBox(box, options.padding);
+    const letterSpacing = options.letterSpacing ?? 0;
+    const wordSpacing = options.wordSpacing ?? 0;
+    const lineGap = fontSize * (options.lineHeight ?? DEFAULT_LINE_HEIGHT);
+
+    // Fields stored without a width only position the text, they never wrap it
+    const maxWidth = box.width > 0 ? content.width : Infinity;
+    const measure = (value: string) => this.measure(value, font, fontSize, letterSpacing, wordSpacing);
+
+    const paragraphs = options.multiline
+      ? text.split(/\r?\n/).map(paragraph => this.wrapParagraph(paragraph, maxWidth, measure))
+      : [[text.replace(/\s*\r?\n\s*/g, ' ')]];
+
+    const lines: Array<{ text: string; justify: boolean }> = [];
+    for (const paragraph of paragraphs) {
+      paragraph.forEach((line, index) => {
+        // The last line of a justified paragraph stays left aligned
+        lines.push({ text: line, justify: options.alignment === 'justify' && index < paragraph.length - 1 });
+      });
+    }
+
+    const ascent = font.heightAtSize(fontSize, { descender: false });
+    const descent = font.heightAtSize(fontSize) - ascent;
+    const blockHeight = ascent + descent + (lines.length - 1) * lineGap;
+    const contentTop = content.y + content.height;
+
+    // A block taller than the box starts at the top so its first lines stay visible
+    const verticalAlignment = blockHeight > content.height ? 'top' : options.verticalAlignment || 'top';
+    let baseline: number;
+    switch (verticalAlignment) {
+      case 'middle':
+        baseline = contentTop - (content.height - blockHeight) / 2 - ascent;
+        break;
+      case 'bottom':
+        baseline = content.y + descent + (lines.length - 1) * lineGap;
+        break;
+      case 'top':
+      default:
+        baseline = contentTop - ascent;
+    }
+
+    // The first line is always drawn, even in a box too small for it
+    const fitting = options.overflow === 'overflow'
+      ? lines.length
+      : Math.max(1, lines.filter((_, index) => baseline - index * lineGap - descent >= content.y - 0.01).length);
+    const visible = lines.slice(0, fitting);
+    const hiddenLines = lines.length - fitting;
+    const overflowsWidth = visible.some(line => measure(line.text) > maxWidth + 0.01);
+    let truncated = false;
+
+    if (options.overflow === 'truncate') {
+      const ellipsis = this.getEllipsis(font, fontSize);
+      visible.forEach((line, index) => {
+        const cut = hiddenLines > 0 && index === visible.length - 1;
+        if (cut || measure(line.text) > maxWidth + 0.01) {
+          line.text = this.ellipsize(line.text, ellipsis, maxWidth, measure);
+          line.justify = false;
+          truncated = true;
+        }
+      });
+    }
+
+    const spaceWidth = measure(' ');
+    const positioned = visible.map((line, index): TextLine => {
+      const width = measure(line.text);
+      const words = line.text.split(' ').length;
+
+      // Justified lines spread the leftover width over the gaps between words
+      const extra = line.justify && words > 1 && width < maxWidth ? (maxWidth - width) / (words - 1) : 0;
+      const lineWidth = width + extra * (words - 1);
+
+      return {
+        text: line.text,
+        x: this.alignLine(options.alignment, content, lineWidth, box.width > 0),
+        y: baseline - index * lineGap,
+        width,
+        gap: spaceWidth + letterSpacing + extra,
+      };
+    });
+
+    const height = ascent + descent + (positioned.length - 1) * lineGap;
+    return { lines: positioned, hiddenLines, overflowsWidth, truncated, fontSize, height };
+  }
+
+  /**
+   * Draw laid-out lines. Lines with word spacing or justification are drawn word by word.
+   */
+  static draw(
+    page: PDFPage,
+    layout: TextLayoutResult,
+    options: Pick<TextLayoutOptions, 'font' | 'letterSpacing' | 'wordSpacing'> & { color: RGB }
+  ): void {
+    const { font, color } = options;
+    const size = layout.fontSize;
+    const letterSpacing = options.letterSpacing ?? 0;
+    const naturalGap = font.widthOfTextAtSize(' ', size) + letterSpacing;
+
+    // Character spacing is a text state parameter, so it applies to every string drawn inside this state
+    if (letterSpacing) {
+      page.pushOperators(pushGraphicsState(), setCharacterSpacing(letterSpacing));
+    }
+
+    for (const line of layout.lines) {
+      // Word spacing is not applied to multi-byte (custom) fonts by PDF viewers, so gaps are positioned explicitly
+      if (Math.abs(line.gap - naturalGap) < 0.001) {
+        page.drawText(line.text, { x: line.x, y: line.y, size, font, color });
+        continue;
+      }
+
+      let x = line.x;
+      for (const word of line.text.split(' ')) {
+        if (word) {
+          page.drawText(word, { x, y: line.y, size, font, color });
+        }
+        x += this.measure(word, font, size, letterSpacing, 0) + line.gap;
+      }
+    }
+
+    if (letterSpacing) {
+      page.pushOperators(popGraphicsState());
+    }
+  }
+
+  /**
+   * Width of a string with letter spacing after every character but the last, and word spacing on each space
+   */
+  static measure(text: string, font: PDFFont, fontSize: number, letterSpacing = 0, wordSpacing = 0): number {
+    if (!text) {
+      return 0;
+    }
+
+    const characters = Array.from(text).length;
+    const spaces = text.split(' ').length - 1;
+    return font.widthOfTextAtSize(text, fontSize) + letterSpacing * (characters - 1) + wordSpacing * spaces;
+  }
+
+  /**
+   * The field box minus its padding
+   */
+  static getContentBox(box: TextBox, padding: FieldStyle['padding'] = 0): TextBox {
+    const { top, right, bottom, left } = typeof padding === 'number'
+      ? { top: padding, right: padding, bottom: padding, left: padding }
+      : padding;
+
+    return {
+      x: box.x + left,
+      y: box.y + bottom,
+      width: Math.max(0, box.width - left - right),
+      height: Math.max(0, box.height - top - bottom),
+    };
+  }
+
+  private static alignLine(
+    alignment: TextLayoutOptions['alignment'],
+    content: TextBox,
+    lineWidth: number,
+    hasWidth: boolean
+  ): number {
+    if (!hasWidth) {
+      return content.x;
+    }
+
+    switch (alignment) {
+      case 'center':
+        return content.x + (content.width - lineWidth) / 2;
+      case 'right':
+        return content.x + content.width - lineWidth;
+      default:
+        return content.x;
+    }
+  }
+
+  /**
+   * Shorten text until it fits with an ellipsis appended; the ellipsis is always added
+   */
+  private static ellipsize(text: string, ellipsis: string, maxWidth: number, measure: (value: string) => number): string {
+    const characters = Array.from(text.trimEnd());
+    while (characters.length > 0 && measure(characters.join('') + ellipsis) > maxWidth) {
+      characters.pop();
+    }
+    return characters.join('').trimEnd() + ellipsis;
+  }
+
+  /**
+   * The ellipsis character, or three periods for fonts that cannot encode it
+   */
+  private static getEllipsis(font: PDFFont, fontSize: number): string {
+    try {
+      font.widthOfTextAtSize('\u2026', fontSize);
+      return '\u2026';
+    } catch {
+      return '...';
+    }
+  }
+
+  /**
+   * Break a paragraph into lines no wider than maxWidth. Words wider than a whole line are split.
+   */
+  private static wrapParagraph(paragraph: string, maxWidth: number, measure: (value: string) => number): string[] {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let currentLine = '';
+
+    for (const word of words) {
+      const testLine = currentLine ? `${currentLine} ${word}` : word;
+
+      if (measure(testLine) <= maxWidth) {
+        currentLine = testLine;
+        continue;
+      }
+
+      if (currentLine) {
+        lines.push(currentLine);
+      }
+
+      currentLine = word;
+      while (measure(currentLine) > maxWidth && currentLine.length > 1) {
+        const characters = Array.from(currentLine);
+        let fitted = 1;
+        while (fitted < characters.length && measure(characters.slice(0, fitted + 1).join('')) <= maxWidth) {
+          fitted++;
+        }
+        lines.push(characters.slice(0, fitted).join(''));
+        currentLine = characters.slice(fitted).join('');
+      }
+    }
+
+    // Blank lines keep their place between paragraphs
+    lines.push(currentLine);
+    return lines;
+  }
+}
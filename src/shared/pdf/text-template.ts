@@ -0,0 +1,137 @@
+/**
+ * Text Template
+ * Fills the {{placeholders}} of static text from the request data, such as
+ * "Dear {{customer.firstName}}, your order ships on {{shipDate | date:'DD MMM YYYY'}}".
+ * Values are read by path and formatted by filters, which use the data transformers.
+ */
+
+import { FieldTransformer } from './types';
+import { DataTransformer } from './utils';
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+export interface TextTemplateResult {
+  text: string;
+  missing: string[]; // paths of placeholders without a value in the data
+  invalid: string[]; // problems with filters, whose values are left unfiltered
+}
+
+interface Filter {
+  name: string;
+  args: string[];
+}
+
+/**
+ * The transformer each filter maps to, given the filter's arguments
+ */
+const FILTERS: Record<string, (args: string[]) => FieldTransformer> = {
+  date: ([dateFormat = 'YYYY-MM-DD']) => ({ type: 'date', options: { dateFormat } }),
+  number: ([decimals = '2']) => ({ type: 'number', options: { decimals: Number(decimals) } }),
+  currency: ([currency = 'USD', locale]) => ({ type: 'currency', options: { currency, ...(locale && { locale }) } }),
+  yesno: ([trueText = 'Yes', falseText = 'No']) => ({ type: 'boolean', options: { trueText, falseText } }),
+  upper: () => ({ type: 'text', options: { uppercase: true } }),
+  lower: () => ({ type: 'text', options: { lowercase: true } }),
+  capitalize: () => ({ type: 'text', options: { capitalize: true } }),
+  truncate: ([length = '']) => ({ type: 'text', options: { truncate: Number(length) } }),
+  prefix: ([prefix = '']) => ({ type: 'text', options: { prefix } }),
+  suffix: ([suffix = '']) => ({ type: 'text', options: { suffix } }),
+};
+
+export class TextTemplate {
+  /**
+   * Fill the placeholders of a text. A placeholder is a data path followed by filters, each with optional
+   * arguments: {{path | filter:'argument':2}}. A missing value is left empty, unless a `default` filter
+   * gives one, and is reported. An unknown filter or one that cannot format its value is reported and skipped.
+   */
+  static render(template: string, data: Record<string, unknown>): TextTemplateResult {
+    const missing: string[] = [];
+    const invalid: string[] = [];
+
+    const text = template.replace(PLACEHOLDER_PATTERN, (placeholder, content: string) => {
+      const [path = '', ...filters] = this.split(content, '|').map(part => part.trim());
+      if (!path) {
+        invalid.push(`Placeholder ${placeholder} has no data path`);
+        return placeholder;
+      }
+
+      let value = DataTransformer.getNestedValue(data, path);
+      for (const filter of filters.map(part => this.parseFilter(part))) {
+        if (filter.name === 'default') {
+          value = value === undefined || value === null || value === '' ? filter.args[0] ?? '' : value;
+          continue;
+        }
+        if (value === undefined || value === null) {
+          continue;
+        }
+        value = this.applyFilter(value, filter, placeholder, invalid);
+      }
+
+      if (value === undefined || value === null) {
+        missing.push(path);
+        return '';
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+
+    return { text, missing, invalid };
+  }
+
+  /**
+   * Format a value with a filter's transformer. Values the filter cannot format are returned unchanged.
+   */
+  private static applyFilter(value: unknown, filter: Filter, placeholder: string, invalid: string[]): unknown {
+    const transformer = Object.prototype.hasOwnProperty.call(FILTERS, filter.name) ? FILTERS[filter.name] : undefined;
+    if (!transformer) {
+      invalid.push(`Unknown filter '${filter.name}' in ${placeholder}`);
+      return value;
+    }
+
+    const config = transformer(filter.args);
+    const readable = config.type === 'date'
+      ? !isNaN(new Date(value as string | number).getTime())
+      : config.type !== 'number' && config.type !== 'currency' || Number.isFinite(Number(value));
+
+    try {
+      if (readable) {
+        return DataTransformer.transform(value, config);
+      }
+    } catch {
+      // e.g. a number of decimals toFixed refuses
+    }
+    invalid.push(`Filter '${filter.name}' cannot format ${JSON.stringify(value)} in ${placeholder}`);
+    return value;
+  }
+
+  /**
+   * Parse a filter such as date:'DD MMM YYYY' into its name and arguments, unquoting quoted arguments
+   */
+  private static parseFilter(source: string): Filter {
+    const [name = '', ...args] = this.split(source, ':').map(part => part.trim());
+    return { name, args: args.map(arg => arg.replace(/^(['"])(.*)\1$/s, '$2')) };
+  }
+
+  /**
+   * Split on a separator outside quotes
+   */
+  private static split(source: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | undefined;
+
+    for (const char of source) {
+      if (quote) {
+        if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === separator) {
+        parts.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    parts.push(current);
+    return parts;
+  }
+}
@@ -3,7 +3,7 @@
  * Comprehensive type definitions for PDF creation, field mapping, and styling
  */
 
-import { rgb, RGB } from 'pdf-lib';
+import { rgb, RGB, PDFPage } from 'pdf-lib';
 
 // ============================================================================
 // Core PDF Types
@@ -12,14 +12,18 @@ import { rgb, RGB } from 'pdf-lib';
 export interface PDFGenerationRequest {
   templateId: string;
   data: Record<string, any>;
+  userId?: string; // owner of the uploaded files and S3 keys image fields may reference
   options?: PDFGenerationOptions;
 }
 
 export interface PDFGenerationOptions {
-  outputFormat?: 'buffer' | 'base64' | 'url';
+  outputFormat?: 'buffer' | 'base64'; // download URLs come from storing the PDF (GeneratedPdfService)
   metadata?: PDFMetadata;
   watermark?: WatermarkConfig;
   security?: PDFSecurityConfig;
+  digitalSignature?: DigitalSignatureOptions;
+  acroForm?: AcroFormFillOptions; // fill the template PDF's own form fields from the data
+  fillable?: boolean; // add text, checkbox, radio and dropdown fields as form fields recipients can fill in
   quality?: 'low' | 'medium' | 'high';
 }
 
@@ -32,7 +36,10 @@ export interface PDFMetadata {
   producer?: string;
 }
 
+export type EncryptionAlgorithm = 'aes-128' | 'aes-256';
+
 export interface PDFSecurityConfig {
+  algorithm?: EncryptionAlgorithm; // defaults to aes-256
   ownerPassword?: string;
   userPassword?: string;
   permissions?: {
@@ -47,22 +54,55 @@ export interface PDFSecurityConfig {
   };
 }
 
+export interface AcroFormFillOptions {
+  flatten?: boolean; // draw the filled fields into the pages and remove the form
+}
+
+export type SignatureSubFilter = 'ETSI.CAdES.detached' | 'adbe.pkcs7.detached';
+
+export interface DigitalSignatureOptions {
+  fieldId?: string; // signature field the visible signature is bound to; invisible when omitted
+  reason?: string; // defaults to the bound field's certificate info
+  location?: string; // defaults to the bound field's certificate info
+  contactInfo?: string;
+  subFilter?: SignatureSubFilter; // PAdES (ETSI.CAdES.detached) by default
+}
+
+// Certificate and private key the service signs with: a PKCS#12 file, or PEM text
+export type SigningCredentials =
+  | { pkcs12: Uint8Array; password?: string }
+  | { certificate: string; privateKey: string; passphrase?: string };
+
 export interface WatermarkConfig {
-  text: string;
+  text?: string; // text or image is required
+  image?: WatermarkImage;
+  font?: string; // font family, defaults to Helvetica
   opacity?: number;
-  rotation?: number;
+  rotation?: number; // degrees; defaults to the page diagonal
   fontSize?: number;
   color?: RGB;
   position?: WatermarkPosition;
+  margin?: number; // distance from the page edge for named positions
+  tiled?: boolean; // repeat the mark across the page
+  tileSpacing?: number; // gap between tiles in points
+  pages?: string | number[]; // 1-based, e.g. "1-3,5"; all pages when omitted
+}
+
+export interface WatermarkImage {
+  fileId: string; // uploaded PNG or JPEG file
+  width?: number; // points; keeps the aspect ratio
+  scale?: number; // relative to the image's natural size
 }
 
 export type WatermarkPosition = 
   | 'center' 
   | 'top-left' 
+  | 'top-center'
   | 'top-right' 
   | 'bottom-left' 
+  | 'bottom-center'
   | 'bottom-right'
-  | { x: number; y: number };
+  | { x: number; y: number }; // centre of the mark, from the bottom-left of the visible page
 
 // ============================================================================
 // Field Mapping and Data Types
@@ -111,17 +151,18 @@ export interface TransformerOptions {
   // Image transformers
   maxWidth?: number;
   maxHeight?: number;
-  aspectRatio?: 'preserve' | 'fill' | 'fit';
+  aspectRatio?: 'preserve' | 'fill' | 'fit'; // natural size shrunk to fit, covering the box, or scaled to fit
   
   // QR/Barcode transformers
+  symbology?: BarcodeSymbology;
   errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
   margin?: number;
   scale?: number;
 }
 
 export interface FieldValidationRule {
-  type: 'required' | 'minLength' | 'maxLength' | 'pattern' | 'custom';
-  value?: any;
+  type: 'required' | 'minLength' | 'maxLength' | 'pattern' | 'oneOf' | 'custom';
+  value?: unknown; // oneOf: the allowed values
   message?: string;
   customValidator?: (value: any) => boolean | string;
 }
@@ -130,9 +171,9 @@ export interface FieldFormatConfig {
   font?: FontConfig;
   color?: RGB;
   alignment?: 'left' | 'center' | 'right' | 'justify';
-  lineHeight?: number;
-  letterSpacing?: number;
-  wordSpacing?: number;
+  lineHeight?: number; // multiple of the font size
+  letterSpacing?: number; // points between characters
+  wordSpacing?: number; // extra points between words
 }
 
 export interface FontConfig {
@@ -152,6 +193,7 @@ export interface PDFTemplateData {
   description?: string;
   templateUrl: string; // S3 URL to the base PDF template
   fields: PDFFieldDefinition[];
+  fonts?: FontResource[]; // custom fonts fields can reference by family
   pages: PDFPageDefinition[];
   metadata: PDFTemplateMetadata;
   settings: PDFTemplateSettings;
@@ -169,6 +211,25 @@ export interface PDFFieldDefinition {
   defaultValue?: any;
   placeholder?: string;
   required?: boolean;
+  barcode?: BarcodeConfig; // barcode fields only
+  qrcode?: QRCodeConfig; // qrcode fields only
+  table?: TableStyle; // table fields only
+  image?: ImageConfig; // image fields only
+  signature?: SignatureStyle; // signature fields only
+  options?: FieldOption[]; // dropdown fields, and radio fields for their whole group
+  optionValue?: string; // radio fields only: the option this button selects
+  visibility?: FieldVisibility; // shown when omitted
+  condition?: string; // conditional fields only: an expression over the request data
+  expression?: string; // computed fields only: the expression their value is computed from
+  text?: string; // static text shown instead of the field's data, with {{placeholders}} filled from the data
+}
+
+export type FieldVisibility = 'always' | 'conditional' | 'hidden';
+
+// A choice of a dropdown or radio group. Radio fields with the same name form one group.
+export interface FieldOption {
+  value: string;
+  label?: string; // shown instead of the value
 }
 
 export type FieldType = 
@@ -183,20 +244,31 @@ export type FieldType =
   | 'signature' 
   | 'qrcode' 
   | 'barcode'
-  | 'table';
+  | 'table'
+  | 'computed'
+  | 'label';
 
 export interface FieldPosition {
   x: number;
   y: number;
-  rotation?: number;
+  rotation?: number; // degrees, counter-clockwise
+  rotationOrigin?: RotationOrigin; // defaults to the centre of the field box
 }
 
+export type RotationOrigin =
+  | 'center'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | { x: number; y: number }; // offset from the bottom-left of the field box
+
 export interface FieldDimensions {
   width: number;
   height: number;
 }
 
-export interface FieldStyle {
+export interface FieldStyle extends Pick<FieldFormatConfig, 'lineHeight' | 'letterSpacing' | 'wordSpacing'> {
   font?: FontConfig;
   color?: RGB;
   backgroundColor?: RGB;
@@ -206,9 +278,13 @@ export interface FieldStyle {
   padding?: number | { top: number; right: number; bottom: number; left: number };
   alignment?: 'left' | 'center' | 'right' | 'justify';
   verticalAlignment?: 'top' | 'middle' | 'bottom';
+  overflow?: TextOverflow; // defaults from the template's autoResize/allowOverflow settings
+  minFontSize?: number; // smallest size shrink-to-fit may use
   opacity?: number;
 }
 
+export type TextOverflow = 'shrink' | 'truncate' | 'overflow';
+
 export interface PDFPageDefinition {
   number: number;
   width: number;
@@ -271,7 +347,44 @@ export interface ProcessingMetadata {
   pageCount: number;
   fieldsProcessed: number;
   fieldsSkipped: number;
+  pagesAdded?: number; // continuation pages inserted for tables that overflowed
   version: string;
+  encryption?: EncryptionSummary;
+  digitalSignature?: DigitalSignatureSummary;
+  acroForm?: AcroFormFillSummary;
+}
+
+export interface EncryptionSummary {
+  encrypted: boolean;
+  algorithm: EncryptionAlgorithm;
+  keyLength: 128 | 256;
+  userPasswordRequired: boolean;
+  ownerPasswordProvided: boolean;
+  permissions: Required<NonNullable<PDFSecurityConfig['permissions']>>;
+}
+
+export interface AcroFormFillSummary {
+  fieldsFilled: number;
+  unmatchedKeys: string[]; // data keys that matched no form field (keys template fields read are not listed)
+  unfilledFields: string[]; // form fields that received no value
+  flattened: boolean;
+}
+
+export interface DigitalSignatureSummary {
+  signed: boolean;
+  subFilter: SignatureSubFilter;
+  signerName: string; // certificate common name
+  certificateSerial: string; // hex
+  signedAt: string;
+  fieldName: string;
+  visible: boolean;
+}
+
+export interface SignatureVerification {
+  valid: boolean; // the digest and signature match the signed bytes
+  coversWholeDocument: boolean; // nothing was appended after signing
+  signerName?: string;
+  error?: string;
 }
 
 export interface ProcessingError {
@@ -291,6 +404,33 @@ export interface ProcessingWarning {
   suggestion?: string;
 }
 
+export interface BulkBatchOptions {
+  concurrent: number;
+  failFast: boolean;
+  includeIndex: boolean;
+  archive: boolean;
+}
+
+// ============================================================================
+// Raster Output Types
+// ============================================================================
+
+export type RasterFormat = 'png' | 'jpeg';
+
+export interface RasterOptions {
+  format: RasterFormat;
+  dpi: number;
+  page?: number; // 1-based; all pages when omitted
+  quality?: number; // JPEG quality, 1-100
+}
+
+export interface RasterizedPage {
+  pageNumber: number;
+  width: number; // pixels
+  height: number; // pixels
+  buffer: Buffer;
+}
+
 // ============================================================================
 // Font and Resource Types
 // ============================================================================
@@ -304,13 +444,14 @@ export interface FontResource {
 export interface FontVariant {
   weight: 'normal' | 'bold';
   style: 'normal' | 'italic';
-  url?: string;
+  url?: string; // S3 key / s3:// URL for 's3' sources, path under the bundled font directory for 'embedded'
+  fileId?: string; // uploaded TTF/OTF file
   buffer?: Buffer;
 }
 
 export interface FontSource {
   type: 'system' | 'web' | 's3' | 'embedded';
-  url?: string;
+  url?: string; // shared location when variants don't set their own
   fallback?: string[];
 }
 
@@ -321,16 +462,128 @@ export interface FontSource {
 export interface TableData {
   headers: string[];
   rows: any[][];
-  style?: TableStyle;
+  footers?: unknown[][]; // drawn after the rows, before any totals row
+  style?: TableStyle; // overrides the field's table style for this document
 }
 
 export interface TableStyle {
-  headerStyle?: FieldStyle;
+  headerStyle?: FieldStyle; // bold by default
   rowStyle?: FieldStyle;
-  alternatingRowStyle?: FieldStyle;
+  alternatingRowStyle?: FieldStyle; // every second row, e.g. a background colour for zebra striping
+  footerStyle?: FieldStyle; // bold by default
   borderStyle?: BorderStyle;
-  cellPadding?: number;
-  columnWidths?: number[];
+  borders?: 'all' | 'horizontal' | 'outer'; // lines drawn with borderStyle, all of them by default
+  cellPadding?: number; // points, 4 by default
+  columnWidths?: number[]; // relative widths, scaled so the columns fill the field
+  columnAlignments?: Array<'left' | 'center' | 'right'>;
+  wrap?: boolean; // wrap cell text onto more lines, on by default; otherwise it is cut with an ellipsis
+  totals?: TableTotals;
+  overflow?: 'paginate' | 'truncate'; // rows that do not fit continue on new pages by default
+  continuation?: TableContinuation;
+}
+
+export interface TableContinuation {
+  page?: number; // template page copied for continuation pages, the field's own page by default
+  x?: number; // table area on continuation pages; each defaults to the field's own box
+  y?: number; // bottom edge
+  height?: number; // the table keeps the field's width
+  maxPages?: number; // continuation pages one table may add, 20 by default
+}
+
+export interface TableTotals {
+  columns: number[]; // zero-based columns to sum
+  label?: string; // 'Total' by default
+  labelColumn?: number; // 0 by default
+  decimals?: number; // 2 by default
+}
+
+export type BarcodeSymbology = 'code128' | 'code39' | 'ean13' | 'upca' | 'itf' | 'pdf417' | 'datamatrix';
+
+export interface BarcodeConfig {
+  symbology: BarcodeSymbology;
+  showText?: boolean; // human-readable text under linear barcodes, on by default
+  textSize?: number; // points
+  checkDigit?: boolean; // append the optional mod 43 check character to Code 39
+}
+
+// Where an image comes from when it is not inlined as a data URL
+export type ImageSource = { fileId: string } | { s3Key: string } | { url: string };
+
+// Loads the bytes of an image a field references
+export type ImageLoader = (source: ImageSource) => Promise<Uint8Array>;
+
+export type ImageAspectRatio = NonNullable<TransformerOptions['aspectRatio']>;
+
+export interface ImageConfig {
+  aspectRatio?: ImageAspectRatio; // 'preserve' by default
+}
+
+// What field renderers need from the document being generated, beyond the page they draw on
+export interface FieldRenderContext {
+  settings?: PDFTemplateSettings; // supplies the default text overflow policy
+  loadImage?: ImageLoader;
+  addContinuationPage?: (field: PDFFieldDefinition) => Promise<PDFPage>; // for table rows that did not fit
+}
+
+export type QRCodePayloadType = 'text' | 'url' | 'vcard' | 'wifi' | 'epc';
+
+export interface QRCodeConfig extends Pick<TransformerOptions, 'errorCorrectionLevel' | 'margin' | 'scale'> {
+  // margin is the quiet zone in modules (default 4); scale is points per module, fitted to the box when omitted
+  foregroundColor?: RGB;
+  backgroundColor?: RGB; // no fill when omitted
+  logo?: QRCodeLogo; // forces error correction level H
+  payload?: QRCodePayloadType; // how the field value becomes QR content, plain text by default
+  utm?: UtmParameters; // appended to 'url' payloads
+}
+
+export interface QRCodeLogo {
+  fileId: string; // uploaded PNG or JPEG
+  size?: number; // fraction of the symbol width, 0.2 by default and 0.3 at most
+}
+
+export interface UtmParameters {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+export interface VCardPayload {
+  firstName?: string;
+  lastName?: string;
+  organization?: string;
+  title?: string;
+  phone?: string;
+  mobile?: string;
+  email?: string;
+  url?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    region?: string;
+    postalCode?: string;
+    country?: string;
+  };
+  note?: string;
+}
+
+export interface WifiPayload {
+  ssid: string;
+  password?: string;
+  encryption?: 'WPA' | 'WEP' | 'nopass';
+  hidden?: boolean;
+}
+
+export interface EpcPaymentPayload {
+  name: string; // beneficiary, up to 70 characters
+  iban: string;
+  bic?: string; // optional inside the EEA
+  amount?: number; // euros, 0.01 to 999999999.99
+  purpose?: string; // four-letter ISO 20022 purpose code
+  reference?: string; // structured creditor reference; excludes remittance
+  remittance?: string; // unstructured text, up to 140 characters
+  information?: string; // note to the payer, up to 70 characters
 }
 
 export interface BorderStyle {
@@ -342,11 +595,26 @@ export interface BorderStyle {
 export interface SignatureConfig {
   type: 'image' | 'drawn' | 'typed';
   imageUrl?: string;
-  signatureData?: string; // Base64 or SVG data
+  signatureData?: string; // Base64 or SVG data; for drawn signatures an SVG document, SVG path data or an SVG data URL
+  strokes?: SignatureStroke[]; // drawn signatures captured as point arrays
   timestamp?: boolean;
   certificateInfo?: CertificateInfo;
 }
 
+export interface SignaturePoint {
+  x: number;
+  y: number; // downwards, as captured on screen
+}
+
+// A pen stroke: points as objects or [x, y] pairs, or a signature pad point group
+export type SignatureStroke = Array<SignaturePoint | [number, number]> | { points: SignaturePoint[] };
+
+// How drawn signatures are inked
+export interface SignatureStyle {
+  strokeWidth?: number; // points, 1.5 by default
+  strokeColor?: RGB; // the field's text colour by default
+}
+
 export interface CertificateInfo {
   signerName: string;
   signerEmail?: string;
@@ -408,3 +676,10 @@ export const Fonts = {
   COURIER_OBLIQUE: 'Courier-Oblique',
   COURIER_BOLD_OBLIQUE: 'Courier-BoldOblique',
 } as const;
+
+export const RasterDefaults = {
+  MIN_DPI: 36,
+  MAX_DPI: 300,
+  DPI: 150,
+  JPEG_QUALITY: 85,
+} as const;
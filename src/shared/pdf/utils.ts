@@ -3,10 +3,25 @@
  * Core utilities for PDF creation, field processing, and data transformation
  */
 
-import { rgb, RGB, PDFDocument, PDFPage, PDFFont, StandardFonts } from 'pdf-lib';
+import {
+  rgb,
+  RGB,
+  PDFDocument,
+  PDFPage,
+  PDFFont,
+  PDFImage,
+  StandardFonts,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+  setGraphicsState,
+  LineCapStyle,
+} from 'pdf-lib';
 import * as QRCode from 'qrcode';
+import fontkit from '@pdf-lib/fontkit';
 import {
   PDFFieldDefinition,
+  FieldStyle,
   FieldTransformer,
   TransformerOptions,
   FieldValidationRule,
@@ -18,7 +33,19 @@ import {
   ProcessingError,
   ProcessingWarning,
   SignatureConfig,
+  FontVariant,
+  FontConfig,
+  PDFTemplateSettings,
+  TextOverflow,
+  ImageLoader,
+  FieldRenderContext,
 } from './types';
+import { TextLayout } from './text-layout';
+import { BarcodeRenderer } from './barcode';
+import { QRCodeRenderer } from './qr-code';
+import { TableRenderer } from './table';
+import { ImageRenderer } from './image';
+import { SignatureRenderer } from './signature';
 
 // ============================================================================
 // Color Utilities
@@ -83,6 +110,10 @@ export const geometryUtils: GeometryUtils = {
 // Data Transformation Utilities
 // ============================================================================
 
+// How number and date fields show their values. The generator formats values once, when it processes the data.
+export const NUMBER_FIELD_FORMAT: FieldTransformer = { type: 'number', options: { decimals: 2 } };
+export const DATE_FIELD_FORMAT: FieldTransformer = { type: 'date', options: { dateFormat: 'MM/DD/YYYY' } };
+
 export class DataTransformer {
   /**
    * Transform a value based on the field transformer configuration
@@ -185,7 +216,8 @@ export class DataTransformer {
   }
 
   /**
-   * Transform date value with formatting options
+   * Transform date value with formatting options. Formats use YYYY, MM, DD, HH, mm and ss, and MMM or MMMM
+   * for the short or full month name in the locale (en-US by default).
    */
   private static transformDate(value: Date, options: TransformerOptions): string {
     const format = options.dateFormat ?? 'YYYY-MM-DD';
@@ -203,13 +235,18 @@ export class DataTransformer {
       const minutes = String(value.getMinutes()).padStart(2, '0');
       const seconds = String(value.getSeconds()).padStart(2, '0');
 
-      return format
-        .replace('YYYY', String(year))
-        .replace('MM', month)
-        .replace('DD', day)
-        .replace('HH', hours)
-        .replace('mm', minutes)
-        .replace('ss', seconds);
+      const tokens: Record<string, string> = {
+        YYYY: String(year),
+        MMMM: value.toLocaleString(options.locale ?? 'en-US', { month: 'long' }),
+        MMM: value.toLocaleString(options.locale ?? 'en-US', { month: 'short' }),
+        MM: month,
+        DD: day,
+        HH: hours,
+        mm: minutes,
+        ss: seconds,
+      };
+
+      return format.replace(/YYYY|MMMM|MMM|MM|DD|HH|mm|ss/g, token => tokens[token] ?? token);
     } catch (error) {
       return value.toString();
     }
@@ -277,24 +314,21 @@ export class DataTransformer {
   }
 
   /**
-   * Generate barcode from text value (placeholder)
+   * Validate a barcode value for its symbology (Code 128 by default), completing the check digit if it was left off
    */
-  private static transformBarcode(value: string, options: TransformerOptions): any {
-    // Placeholder for barcode generation
-    // In production, use a barcode library like jsbarcode
-    return {
-      value,
-      type: 'code128',
-      options,
-    };
+  private static transformBarcode(value: string, options: TransformerOptions): string {
+    return BarcodeRenderer.validate(value, { symbology: options.symbology ?? 'code128' });
   }
 
   /**
-   * Get nested value from object using dot notation path
+   * Get nested value from object using dot notation path. Only own properties are read, so paths such as
+   * `constructor` or `toString` find nothing rather than inherited members.
    */
-  static getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => {
-      return current && current[key] !== undefined ? current[key] : undefined;
+  static getNestedValue(obj: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>((current, key) => {
+      return current !== null && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, key)
+        ? (current as Record<string, unknown>)[key]
+        : undefined;
     }, obj);
   }
 }
@@ -363,6 +397,14 @@ export class FieldValidator {
         }
         break;
 
+      case 'oneOf':
+        // Empty values are left to the required rule
+        if (value !== null && value !== undefined && value !== '' && Array.isArray(ruleValue)
+          && !ruleValue.includes(String(value))) {
+          return { error: message ?? `Must be one of: ${ruleValue.join(', ')}` };
+        }
+        break;
+
       case 'custom':
         if (customValidator) {
           const result = customValidator(value);
@@ -381,67 +423,275 @@ export class FieldValidator {
 // Font Management Utilities
 // ============================================================================
 
+type FontWeight = NonNullable<FontConfig['weight']>;
+type FontStyle = NonNullable<FontConfig['style']>;
+
+interface CustomFontVariant {
+  weight: FontWeight;
+  style: FontStyle;
+  bytes: Uint8Array;
+  font?: PDFFont;
+}
+
+/**
+ * Fonts embedded into one document. PDFFont objects belong to the document that embedded them,
+ * so nothing here is shared between documents.
+ */
+interface DocumentFonts {
+  standard: Map<StandardFonts, PDFFont>;
+  custom: Map<string, CustomFontVariant[]>;
+  fallbacks: Map<string, string[]>;
+  warnings: ProcessingWarning[];
+  warned: Set<string>;
+}
+
+// Standard 14 variants by family, indexed by weight then style
+const STANDARD_FAMILIES: Record<string, Record<FontWeight, Record<FontStyle, StandardFonts>>> = {
+  helvetica: {
+    normal: { normal: StandardFonts.Helvetica, italic: StandardFonts.HelveticaOblique },
+    bold: { normal: StandardFonts.HelveticaBold, italic: StandardFonts.HelveticaBoldOblique },
+  },
+  times: {
+    normal: { normal: StandardFonts.TimesRoman, italic: StandardFonts.TimesRomanItalic },
+    bold: { normal: StandardFonts.TimesRomanBold, italic: StandardFonts.TimesRomanBoldItalic },
+  },
+  courier: {
+    normal: { normal: StandardFonts.Courier, italic: StandardFonts.CourierOblique },
+    bold: { normal: StandardFonts.CourierBold, italic: StandardFonts.CourierBoldOblique },
+  },
+};
+
+const STANDARD_FAMILY_ALIASES: Record<string, string> = {
+  helvetica: 'helvetica',
+  arial: 'helvetica',
+  'sans-serif': 'helvetica',
+  times: 'times',
+  'times-roman': 'times',
+  'times new roman': 'times',
+  serif: 'times',
+  courier: 'courier',
+  'courier new': 'courier',
+  monospace: 'courier',
+};
+
+// Symbol fonts only come in one variant
+const SINGLE_VARIANT_FONTS: Record<string, StandardFonts> = {
+  symbol: StandardFonts.Symbol,
+  zapfdingbats: StandardFonts.ZapfDingbats,
+};
+
+// PostScript-style names carry the variant after the hyphen, e.g. Times-BoldItalic or Helvetica-Oblique
+const VARIANT_SUFFIX = /^(.+?)-(roman|bold|italic|oblique|bolditalic|boldoblique)$/;
+
 export class FontManager {
-  private static fontCache = new Map<string, PDFFont>();
+  private static documents = new WeakMap<PDFDocument, DocumentFonts>();
 
   /**
-   * Get or load a font for the PDF document
+   * Register a custom TrueType/OpenType font variant for a document
    */
-  static async getFont(doc: PDFDocument, fontFamily: string): Promise<PDFFont> {
-    const cacheKey = `${fontFamily}`;
-    
-    if (this.fontCache.has(cacheKey)) {
-      return this.fontCache.get(cacheKey)!;
+  static registerCustomFont(
+    doc: PDFDocument,
+    family: string,
+    variant: Pick<FontVariant, 'weight' | 'style'>,
+    bytes: Uint8Array
+  ): void {
+    doc.registerFontkit(fontkit);
+
+    const { custom } = this.getDocumentFonts(doc);
+    const familyKey = this.normalizeFamily(family);
+    const variants = custom.get(familyKey) || [];
+    variants.push({ weight: variant.weight, style: variant.style, bytes });
+    custom.set(familyKey, variants);
+  }
+
+  /**
+   * Register the families to try, in order, when a font family is not available in a document
+   */
+  static registerFallbacks(doc: PDFDocument, family: string, fallbacks: string[]): void {
+    this.getDocumentFonts(doc).fallbacks.set(this.normalizeFamily(family), fallbacks);
+  }
+
+  /**
+   * Get or embed the font matching a family, weight and style for the PDF document.
+   * A plain family name resolves to its regular variant; when the exact variant is not
+   * available the closest one is used and a warning is recorded for the document.
+   */
+  static async getFont(doc: PDFDocument, font: FontConfig | string = {}, fieldId?: string): Promise<PDFFont> {
+    const config = typeof font === 'string' ? { family: font } : font;
+    const family = config.family || 'Helvetica';
+    const weight = config.weight || 'normal';
+    const style = config.style || 'normal';
+    const fonts = this.getDocumentFonts(doc);
+
+    const resolved = await this.resolveFamily(doc, fonts, family, weight, style, fieldId);
+    if (resolved) {
+      return resolved;
     }
 
-    let font: PDFFont;
+    for (const fallback of fonts.fallbacks.get(this.normalizeFamily(family)) || []) {
+      const fallbackFont = await this.resolveFamily(doc, fonts, fallback, weight, style, fieldId);
+      if (fallbackFont) {
+        this.addWarning(fonts, {
+          code: 'FONT_NOT_FOUND',
+          message: `Font '${family}' is not available; using fallback '${fallback}'`,
+          field: fieldId,
+        });
+        return fallbackFont;
+      }
+    }
 
-    // Map common font names to standard fonts
-    switch (fontFamily.toLowerCase()) {
-      case 'helvetica':
-      case 'arial':
-      case 'sans-serif':
-        font = await doc.embedFont(StandardFonts.Helvetica);
-        break;
-      
-      case 'helvetica-bold':
-      case 'arial-bold':
-        font = await doc.embedFont(StandardFonts.HelveticaBold);
-        break;
-      
-      case 'times':
-      case 'times-roman':
-      case 'serif':
-        font = await doc.embedFont(StandardFonts.TimesRoman);
-        break;
-      
-      case 'times-bold':
-        font = await doc.embedFont(StandardFonts.TimesRomanBold);
-        break;
-      
-      case 'courier':
-      case 'monospace':
-        font = await doc.embedFont(StandardFonts.Courier);
-        break;
-      
-      case 'courier-bold':
-        font = await doc.embedFont(StandardFonts.CourierBold);
-        break;
-      
-      default:
-        // Default to Helvetica if font not found
-        font = await doc.embedFont(StandardFonts.Helvetica);
+    this.addWarning(fonts, {
+      code: 'FONT_NOT_FOUND',
+      message: `Font '${family}' is not available; using Helvetica`,
+      field: fieldId,
+      suggestion: 'Use a standard font family or declare the font in the template fonts',
+    });
+    return this.embedStandardFont(doc, fonts, STANDARD_FAMILIES['helvetica']![weight][style]);
+  }
+
+  /**
+   * Return and clear the font resolution warnings recorded for a document
+   */
+  static takeWarnings(doc: PDFDocument): ProcessingWarning[] {
+    const fonts = this.documents.get(doc);
+    if (!fonts) {
+      return [];
     }
 
-    this.fontCache.set(cacheKey, font);
+    const warnings = fonts.warnings;
+    fonts.warnings = [];
+    return warnings;
+  }
+
+  /**
+   * Resolve a family registered for the document or one of the standard fonts; null when unknown
+   */
+  private static async resolveFamily(
+    doc: PDFDocument,
+    fonts: DocumentFonts,
+    family: string,
+    weight: FontWeight,
+    style: FontStyle,
+    fieldId?: string
+  ): Promise<PDFFont | null> {
+    const familyKey = this.normalizeFamily(family);
+
+    // Custom fonts registered for this document take precedence over the standard fonts
+    const variants = fonts.custom.get(familyKey);
+    if (variants && variants.length > 0) {
+      return this.embedCustomVariant(doc, fonts, family, variants, weight, style, fieldId);
+    }
+
+    const singleVariant = SINGLE_VARIANT_FONTS[familyKey];
+    if (singleVariant) {
+      if (weight !== 'normal' || style !== 'normal') {
+        this.warnVariantFallback(fonts, family, weight, style, 'normal', 'normal', fieldId);
+      }
+      return this.embedStandardFont(doc, fonts, singleVariant);
+    }
+
+    let baseFamily = STANDARD_FAMILY_ALIASES[familyKey];
+    let bold = weight === 'bold';
+    let italic = style === 'italic';
+
+    if (!baseFamily) {
+      const match = VARIANT_SUFFIX.exec(familyKey);
+      baseFamily = match ? STANDARD_FAMILY_ALIASES[match[1]!] : undefined;
+      if (!match || !baseFamily) {
+        return null;
+      }
+
+      bold ||= match[2]!.startsWith('bold');
+      italic ||= match[2]!.endsWith('italic') || match[2]!.endsWith('oblique');
+    }
+
+    const variant = STANDARD_FAMILIES[baseFamily]![bold ? 'bold' : 'normal'][italic ? 'italic' : 'normal'];
+    return this.embedStandardFont(doc, fonts, variant);
+  }
+
+  /**
+   * Embed the closest registered variant of a custom family on first use.
+   * Style is matched before weight, since a missing italic is more noticeable than a missing bold.
+   */
+  private static async embedCustomVariant(
+    doc: PDFDocument,
+    fonts: DocumentFonts,
+    family: string,
+    variants: CustomFontVariant[],
+    weight: FontWeight,
+    style: FontStyle,
+    fieldId?: string
+  ): Promise<PDFFont> {
+    const score = (v: CustomFontVariant) =>
+      (v.style === style ? 4 : 0) + (v.weight === weight ? 2 : 0) + (v.weight === 'normal' && v.style === 'normal' ? 1 : 0);
+    const variant = variants.reduce((best, candidate) => (score(candidate) > score(best) ? candidate : best));
+
+    if (variant.weight !== weight || variant.style !== style) {
+      this.warnVariantFallback(fonts, family, weight, style, variant.weight, variant.style, fieldId);
+    }
+
+    // Subsetting keeps only the glyphs that are actually drawn
+    variant.font ??= await doc.embedFont(variant.bytes, { subset: true });
+    return variant.font;
+  }
+
+  private static async embedStandardFont(doc: PDFDocument, fonts: DocumentFonts, name: StandardFonts): Promise<PDFFont> {
+    let font = fonts.standard.get(name);
+    if (!font) {
+      font = await doc.embedFont(name);
+      fonts.standard.set(name, font);
+    }
     return font;
   }
 
+  private static warnVariantFallback(
+    fonts: DocumentFonts,
+    family: string,
+    weight: FontWeight,
+    style: FontStyle,
+    usedWeight: FontWeight,
+    usedStyle: FontStyle,
+    fieldId?: string
+  ): void {
+    this.addWarning(fonts, {
+      code: 'FONT_VARIANT_NOT_FOUND',
+      message: `Font '${family}' has no ${this.describeVariant(weight, style)} variant; using ${this.describeVariant(usedWeight, usedStyle)}`,
+      field: fieldId,
+      suggestion: `Add a ${this.describeVariant(weight, style)} variant to the template font '${family}'`,
+    });
+  }
+
   /**
-   * Clear font cache
+   * Record a warning once per document and field
    */
-  static clearCache(): void {
-    this.fontCache.clear();
+  private static addWarning(fonts: DocumentFonts, warning: ProcessingWarning): void {
+    const key = `${warning.field ?? ''}|${warning.message}`;
+    if (fonts.warned.has(key)) {
+      return;
+    }
+
+    fonts.warned.add(key);
+    fonts.warnings.push(warning);
+  }
+
+  private static describeVariant(weight: FontWeight, style: FontStyle): string {
+    if (weight === 'normal' && style === 'normal') {
+      return 'regular';
+    }
+    return [weight === 'bold' ? 'bold' : '', style === 'italic' ? 'italic' : ''].filter(Boolean).join(' ');
+  }
+
+  private static normalizeFamily(family: string): string {
+    return family.trim().toLowerCase();
+  }
+
+  private static getDocumentFonts(doc: PDFDocument): DocumentFonts {
+    let fonts = this.documents.get(doc);
+    if (!fonts) {
+      fonts = { standard: new Map(), custom: new Map(), fallbacks: new Map(), warnings: [], warned: new Set() };
+      this.documents.set(doc, fonts);
+    }
+    return fonts;
   }
 }
 
@@ -449,116 +699,274 @@ export class FontManager {
 // PDF Field Processors
 // ============================================================================
 
+// Continuation pages one table may add unless its field sets a limit
+const DEFAULT_MAX_CONTINUATION_PAGES = 20;
+
 export class FieldProcessor {
   /**
-   * Process and render a field on a PDF page
+   * Process and render a field on a PDF page. The context supplies the template settings (the default text
+   * overflow policy), uploaded images a field references and continuation pages for tables that overflow.
    */
   static async renderField(
     page: PDFPage,
     field: PDFFieldDefinition,
     value: any,
-    doc: PDFDocument
+    doc: PDFDocument,
+    context: FieldRenderContext = {}
   ): Promise<{ errors: ProcessingError[]; warnings: ProcessingWarning[] }> {
     const errors: ProcessingError[] = [];
     const warnings: ProcessingWarning[] = [];
+    const settings = context.settings || {};
+
+    // Rotation and opacity apply to everything the field draws, whatever its type
+    const stateSaved = this.beginFieldState(page, field, doc);
 
     try {
+      // Checkboxes and radio buttons decorate their own square or circle
+      if (field.type !== 'checkbox' && field.type !== 'radio') {
+        this.drawFieldBox(page, { ...field.position, ...field.dimensions }, field.style);
+      }
+
       switch (field.type) {
         case 'text':
         case 'multiline-text':
-          await this.renderTextField(page, field, value, doc);
+        case 'label':
+          warnings.push(...await this.renderTextField(page, field, value, doc, settings));
           break;
         
         case 'number':
-          await this.renderNumberField(page, field, value, doc);
+          warnings.push(...await this.renderNumberField(page, field, value, doc, settings));
           break;
         
         case 'date':
-          await this.renderDateField(page, field, value, doc);
+          warnings.push(...await this.renderDateField(page, field, value, doc, settings));
           break;
         
         case 'checkbox':
           await this.renderCheckboxField(page, field, value, doc);
           break;
         
+        case 'radio':
+          this.renderRadioField(page, field, value);
+          break;
+        
+        case 'dropdown':
+          warnings.push(...await this.renderDropdownField(page, field, value, doc, settings));
+          break;
+        
         case 'image':
-          await this.renderImageField(page, field, value, doc);
+          await this.renderImageField(page, field, value, doc, context.loadImage);
           break;
         
         case 'qrcode':
-          await this.renderQRCodeField(page, field, value, doc);
+          warnings.push(...await this.renderQRCodeField(page, field, value, doc, context.loadImage));
           break;
         
         case 'table':
-          await this.renderTableField(page, field, value, doc);
+          warnings.push(...await this.renderTableField(page, field, value as TableData, doc, context));
           break;
         
         case 'signature':
-          await this.renderSignatureField(page, field, value, doc);
+          warnings.push(...await this.renderSignatureField(page, field, value as SignatureConfig, doc, context));
+          break;
+        
+        case 'barcode':
+          await this.renderBarcodeField(page, field, value, doc);
+          break;
+        
+        case 'computed':
+          warnings.push(...await this.renderComputedField(page, field, value, doc, settings));
           break;
         
         default:
+          // Every known type is handled; stored fields may still carry others
           warnings.push({
             code: 'UNSUPPORTED_FIELD_TYPE',
-            message: `Field type '${field.type}' is not supported`,
+            message: `Field type '${field.type as string}' is not supported`,
             field: field.id,
           });
       }
     } catch (error) {
       errors.push({
-        code: 'FIELD_PROCESSING_ERROR',
+        code: error instanceof PDFGenerationError ? error.code : 'FIELD_PROCESSING_ERROR',
         message: error instanceof Error ? error.message : 'Unknown error',
         field: field.id,
         severity: 'error',
         details: error,
       });
+    } finally {
+      if (stateSaved) {
+        page.pushOperators(popGraphicsState());
+      }
     }
 
     return { errors, warnings };
   }
 
   /**
-   * Render text field
+   * Set up the graphics state a field draws in: rotated around its rotation origin and faded to its opacity.
+   * Returns true when a graphics state was pushed and must be popped after drawing.
+   */
+  private static beginFieldState(page: PDFPage, field: PDFFieldDefinition, doc: PDFDocument): boolean {
+    const rotation = field.position.rotation || 0;
+    const opacity = field.style.opacity ?? 1;
+    const rotated = rotation % 360 !== 0;
+    const faded = opacity < 1;
+
+    if (!rotated && !faded) {
+      return false;
+    }
+
+    page.pushOperators(pushGraphicsState());
+
+    if (rotated) {
+      const { x, y } = this.getRotationOrigin(field);
+      const radians = rotation * Math.PI / 180;
+      const cos = Math.cos(radians);
+      const sin = Math.sin(radians);
+
+      // Translate the origin to (0, 0), rotate, then translate back
+      page.pushOperators(concatTransformationMatrix(cos, sin, -sin, cos, x - x * cos + y * sin, y - x * sin - y * cos));
+    }
+
+    if (faded) {
+      // Fill and stroke alpha in the graphics state fade text, images and vector paths alike
+      const state = doc.context.obj({ Type: 'ExtGState', ca: opacity, CA: opacity });
+      page.pushOperators(setGraphicsState(page.node.newExtGState('GS', state)));
+    }
+
+    return true;
+  }
+
+  /**
+   * Draw a field box background and border. The border is drawn when a border colour or width is set.
+   */
+  private static drawFieldBox(
+    page: PDFPage,
+    box: { x: number; y: number; width: number; height: number },
+    style: FieldStyle
+  ): void {
+    const borderWidth = style.borderWidth ?? (style.borderColor ? 1 : 0);
+    const hasBorder = borderWidth > 0;
+
+    if (!style.backgroundColor && !hasBorder) {
+      return;
+    }
+
+    page.drawRectangle({
+      ...box,
+      color: style.backgroundColor,
+      ...(hasBorder && {
+        borderColor: style.borderColor || Colors.BLACK,
+        borderWidth,
+        ...this.getDashOptions(style.borderStyle, borderWidth),
+      }),
+    });
+  }
+
+  /**
+   * Dash pattern for a border style, scaled to the line width. Dots are zero-length dashes with round caps.
+   */
+  static getDashOptions(
+    borderStyle: FieldStyle['borderStyle'],
+    width: number
+  ): { borderDashArray?: number[]; borderLineCap?: LineCapStyle } {
+    switch (borderStyle) {
+      case 'dashed':
+        return { borderDashArray: [width * 3, width * 2] };
+      case 'dotted':
+        return { borderDashArray: [0, width * 2], borderLineCap: LineCapStyle.Round };
+      default:
+        return {};
+    }
+  }
+
+  private static getRotationOrigin(field: PDFFieldDefinition): { x: number; y: number } {
+    const { x, y, rotationOrigin = 'center' } = field.position;
+    const { width, height } = field.dimensions;
+
+    if (typeof rotationOrigin === 'object') {
+      return { x: x + rotationOrigin.x, y: y + rotationOrigin.y };
+    }
+
+    switch (rotationOrigin) {
+      case 'top-left':
+        return { x, y: y + height };
+      case 'top-right':
+        return { x: x + width, y: y + height };
+      case 'bottom-left':
+        return { x, y };
+      case 'bottom-right':
+        return { x: x + width, y };
+      case 'center':
+      default:
+        return { x: x + width / 2, y: y + height / 2 };
+    }
+  }
+
+  /**
+   * Render text field, reporting text that had to be shrunk or truncated to fit its box
    */
   private static async renderTextField(
     page: PDFPage,
     field: PDFFieldDefinition,
     value: any,
-    doc: PDFDocument
-  ): Promise<void> {
+    doc: PDFDocument,
+    settings: PDFTemplateSettings
+  ): Promise<ProcessingWarning[]> {
     const text = String(value || field.defaultValue || '');
-    const font = await FontManager.getFont(doc, field.style.font?.family || 'Helvetica');
+    const font = await FontManager.getFont(doc, field.style.font, field.id);
     const fontSize = field.style.font?.size || 12;
     const color = field.style.color || Colors.BLACK;
+    const { letterSpacing, wordSpacing } = field.style;
+
+    const layout = TextLayout.layout(text, { ...field.position, ...field.dimensions }, {
+      font,
+      fontSize,
+      multiline: field.type === 'multiline-text' || field.type === 'label',
+      alignment: field.style.alignment,
+      verticalAlignment: field.style.verticalAlignment,
+      padding: field.style.padding,
+      lineHeight: field.style.lineHeight,
+      letterSpacing,
+      wordSpacing,
+      overflow: field.style.overflow || this.getDefaultOverflow(settings),
+      minFontSize: field.style.minFontSize,
+    });
 
-    if (field.type === 'multiline-text') {
-      // Handle multiline text with word wrapping
-      const lines = this.wrapText(text, field.dimensions.width, font, fontSize);
-      let yPosition = field.position.y;
+    TextLayout.draw(page, layout, { font, color, letterSpacing, wordSpacing });
 
-      for (const line of lines) {
-        if (yPosition < field.position.y - field.dimensions.height) break;
-        
-        page.drawText(line, {
-          x: field.position.x,
-          y: yPosition,
-          size: fontSize,
-          font,
-          color,
-        });
-        
-        yPosition -= fontSize * 1.2; // Line height
-      }
-    } else {
-      // Single line text
-      page.drawText(text, {
-        x: field.position.x,
-        y: field.position.y,
-        size: fontSize,
-        font,
-        color,
+    const warnings: ProcessingWarning[] = [];
+    if (layout.fontSize < fontSize) {
+      warnings.push({
+        code: 'TEXT_SHRUNK',
+        message: `Text in field '${field.name}' was shrunk from ${fontSize}pt to ${layout.fontSize}pt to fit`,
+        field: field.id,
+        page: field.page,
       });
     }
+    if (layout.truncated) {
+      warnings.push({
+        code: 'TEXT_TRUNCATED',
+        message: `Text in field '${field.name}' did not fit and was truncated`,
+        field: field.id,
+        page: field.page,
+        suggestion: 'Enlarge the field, lower its minimum font size or allow overflow',
+      });
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Text fields without their own overflow policy follow the template: autoResize shrinks text
+   * to fit, allowOverflow lets it run outside the box, and otherwise it is truncated
+   */
+  private static getDefaultOverflow(settings: PDFTemplateSettings): TextOverflow {
+    if (settings.allowOverflow) {
+      return 'overflow';
+    }
+    return settings.autoResize ? 'shrink' : 'truncate';
   }
 
   /**
@@ -568,11 +976,13 @@ export class FieldProcessor {
     page: PDFPage,
     field: PDFFieldDefinition,
     value: any,
-    doc: PDFDocument
-  ): Promise<void> {
-    const numValue = Number(value || field.defaultValue || 0);
-    const formattedValue = numValue.toLocaleString();
-    await this.renderTextField(page, field, formattedValue, doc);
+    doc: PDFDocument,
+    settings: PDFTemplateSettings
+  ): Promise<ProcessingWarning[]> {
+    // Text is already formatted; numbers, such as those of callers that pass raw values, are formatted here
+    const shown: unknown = value || field.defaultValue || 0;
+    const formattedValue = typeof shown === 'string' ? shown : DataTransformer.transform(shown, NUMBER_FIELD_FORMAT);
+    return this.renderTextField(page, field, formattedValue, doc, settings);
   }
 
   /**
@@ -582,11 +992,13 @@ export class FieldProcessor {
     page: PDFPage,
     field: PDFFieldDefinition,
     value: any,
-    doc: PDFDocument
-  ): Promise<void> {
-    const dateValue = new Date(value || field.defaultValue || new Date());
-    const formattedValue = dateValue.toLocaleDateString();
-    await this.renderTextField(page, field, formattedValue, doc);
+    doc: PDFDocument,
+    settings: PDFTemplateSettings
+  ): Promise<ProcessingWarning[]> {
+    // Text is already formatted; dates and timestamps are formatted here
+    const shown: unknown = value || field.defaultValue || new Date();
+    const formattedValue = typeof shown === 'string' ? shown : DataTransformer.transform(shown, DATE_FIELD_FORMAT);
+    return this.renderTextField(page, field, formattedValue, doc, settings);
   }
 
   /**
@@ -601,13 +1013,9 @@ export class FieldProcessor {
     const isChecked = Boolean(value);
     const size = Math.min(field.dimensions.width, field.dimensions.height);
     
-    // Draw checkbox border
-    page.drawRectangle({
-      x: field.position.x,
-      y: field.position.y,
-      width: size,
-      height: size,
-      borderColor: field.style.borderColor || Colors.BLACK,
+    // Draw checkbox background and border; a checkbox always has a border
+    this.drawFieldBox(page, { ...field.position, width: size, height: size }, {
+      ...field.style,
       borderWidth: field.style.borderWidth || 1,
     });
 
@@ -625,144 +1033,222 @@ export class FieldProcessor {
   }
 
   /**
-   * Render image field
+   * Render a radio button: a circle, marked when the value selects this button's option.
+   * The other options of the group are radio fields of their own.
+   */
+  private static renderRadioField(page: PDFPage, field: PDFFieldDefinition, value: unknown): void {
+    const size = Math.min(field.dimensions.width, field.dimensions.height);
+    const center = { x: field.position.x + size / 2, y: field.position.y + size / 2 };
+    const selected: unknown = value ?? field.defaultValue;
+
+    // A radio button always has a border, like a checkbox
+    const borderWidth = field.style.borderWidth || 1;
+    page.drawCircle({
+      ...center,
+      size: (size - borderWidth) / 2,
+      color: field.style.backgroundColor,
+      borderColor: field.style.borderColor || Colors.BLACK,
+      borderWidth,
+      ...this.getDashOptions(field.style.borderStyle, borderWidth),
+    });
+
+    if (field.optionValue !== undefined && selected !== undefined && selected !== null
+      && String(selected) === field.optionValue) {
+      page.drawCircle({ ...center, size: size * 0.25, color: field.style.color || Colors.BLACK });
+    }
+  }
+
+  /**
+   * Render a computed value as text. A computed zero or false is shown, where a text field would use its default.
+   */
+  private static async renderComputedField(
+    page: PDFPage,
+    field: PDFFieldDefinition,
+    value: unknown,
+    doc: PDFDocument,
+    settings: PDFTemplateSettings
+  ): Promise<ProcessingWarning[]> {
+    const text = value === null || value === undefined
+      ? ''
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return this.renderTextField(page, field, text, doc, settings);
+  }
+
+  /**
+   * Render a dropdown as the label of its selected option. Values that are not options are shown as they are.
+   */
+  private static async renderDropdownField(
+    page: PDFPage,
+    field: PDFFieldDefinition,
+    value: unknown,
+    doc: PDFDocument,
+    settings: PDFTemplateSettings
+  ): Promise<ProcessingWarning[]> {
+    const selected: unknown = value ?? field.defaultValue;
+    if (selected === undefined || selected === null || selected === '') {
+      return [];
+    }
+
+    const option = field.options?.find(candidate => candidate.value === String(selected));
+    return this.renderTextField(page, field, option?.label ?? String(selected), doc, settings);
+  }
+
+  /**
+   * Render image field from a data URL, uploaded file, S3 key or allow-listed URL, placed in the padded
+   * field box by the field's aspect ratio mode
    */
   private static async renderImageField(
     page: PDFPage,
     field: PDFFieldDefinition,
     value: any,
-    doc: PDFDocument
+    doc: PDFDocument,
+    loadImage?: ImageLoader
   ): Promise<void> {
-    try {
-      if (!value || typeof value !== 'string') return;
+    const source = ImageRenderer.parseSource(value ?? field.defaultValue);
+    if (!source) return;
+
+    let bytes: Uint8Array;
+    if ('dataUrl' in source) {
+      bytes = ImageRenderer.decodeDataUrl(source.dataUrl);
+    } else if (loadImage) {
+      bytes = await loadImage(source);
+    } else {
+      throw new PDFGenerationError('Images can only be loaded while generating a document', 'IMAGE_NOT_AVAILABLE');
+    }
 
-      let imageBytes: Uint8Array;
-      
-      if (value.startsWith('data:image/')) {
-        // Base64 image
-        const base64Data = value.split(',')[1];
-        if (!base64Data) {
-          console.warn('Invalid base64 image data');
-          return;
-        }
-        imageBytes = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
-      } else {
-        // URL - would need to fetch in production
-        console.warn('URL-based images not implemented in this example');
-        return;
-      }
+    const image = await ImageRenderer.embed(doc, bytes);
+    const box = TextLayout.getContentBox({ ...field.position, ...field.dimensions }, field.style.padding);
+    ImageRenderer.draw(page, image, box, field.image?.aspectRatio);
+  }
 
-      let image;
-      if (value.includes('image/png') || value.includes('image/jpeg')) {
-        if (value.includes('image/png')) {
-          image = await doc.embedPng(imageBytes);
-        } else {
-          image = await doc.embedJpg(imageBytes);
+  /**
+   * Render QR code field as vector modules inside the padded field box
+   */
+  private static async renderQRCodeField(
+    page: PDFPage,
+    field: PDFFieldDefinition,
+    value: unknown,
+    doc: PDFDocument,
+    loadImage?: ImageLoader
+  ): Promise<ProcessingWarning[]> {
+    const content: unknown = value ?? field.defaultValue;
+    if (content === undefined || content === null || content === '') return [];
+
+    const config = field.qrcode || {};
+    const warnings: ProcessingWarning[] = [];
+    const box = TextLayout.getContentBox({ ...field.position, ...field.dimensions }, field.style.padding);
+
+    // A logo that cannot be loaded leaves a plain, still scannable code
+    let logo: PDFImage | undefined;
+    if (config.logo) {
+      try {
+        if (!loadImage) {
+          throw new Error('Uploaded files are not available');
         }
-
-        page.drawImage(image, {
-          x: field.position.x,
-          y: field.position.y,
-          width: field.dimensions.width,
-          height: field.dimensions.height,
+        logo = await ImageRenderer.embed(doc, await loadImage({ fileId: config.logo.fileId }));
+      } catch (error) {
+        warnings.push({
+          code: 'QR_LOGO_UNAVAILABLE',
+          message: `QR code logo ${config.logo.fileId} was not drawn: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          field: field.id,
         });
       }
-    } catch (error) {
-      console.error('Failed to render image:', error);
     }
+
+    QRCodeRenderer.draw(page, QRCodeRenderer.buildPayload(content, config), config, box, logo);
+    return warnings;
   }
 
   /**
-   * Render QR code field
+   * Render barcode field as vector bars or modules inside the padded field box
    */
-  private static async renderQRCodeField(
+  private static async renderBarcodeField(
     page: PDFPage,
     field: PDFFieldDefinition,
     value: any,
     doc: PDFDocument
   ): Promise<void> {
-    try {
-      const qrCodeDataUrl = await QRCode.toDataURL(String(value), {
-        width: field.dimensions.width,
-        margin: 1,
-      });
+    const data = String(value ?? field.defaultValue ?? '');
+    if (!data) return;
 
-      await this.renderImageField(page, field, qrCodeDataUrl, doc);
-    } catch (error) {
-      console.error('Failed to render QR code:', error);
-    }
+    const config = field.barcode || { symbology: 'code128' };
+    const font = config.showText !== false ? await FontManager.getFont(doc, field.style.font, field.id) : undefined;
+    const box = TextLayout.getContentBox({ ...field.position, ...field.dimensions }, field.style.padding);
+
+    BarcodeRenderer.draw(page, data, config, box, { color: field.style.color, font });
   }
 
   /**
-   * Render table field
+   * Render table field from the top of the field box down. Rows that do not fit continue on continuation pages,
+   * each starting with the header again, unless the table truncates; rows that still do not fit are reported.
    */
   private static async renderTableField(
     page: PDFPage,
     field: PDFFieldDefinition,
     value: TableData,
-    doc: PDFDocument
-  ): Promise<void> {
-    if (!value || !value.headers || !value.rows) return;
-
-    const font = await FontManager.getFont(doc, field.style.font?.family || 'Helvetica');
-    const fontSize = field.style.font?.size || 10;
-    const rowHeight = fontSize * 1.5;
-    const cellPadding = 4;
-
-    let yPosition = field.position.y;
-    const columnWidth = field.dimensions.width / value.headers.length;
+    doc: PDFDocument,
+    context: FieldRenderContext
+  ): Promise<ProcessingWarning[]> {
+    if (!value || !Array.isArray(value.headers) || !Array.isArray(value.rows)) return [];
+    if (value.headers.length === 0 && value.rows.length === 0) return [];
+
+    const table = await TableRenderer.layout(doc, field, value);
+    let next = TableRenderer.draw(page, table, { ...field.position, ...field.dimensions });
+
+    const continuation = field.table?.continuation || {};
+    const paginate = field.table?.overflow !== 'truncate' && !!context.addContinuationPage;
+    const maxPages = continuation.maxPages ?? DEFAULT_MAX_CONTINUATION_PAGES;
+    const area = {
+      x: continuation.x ?? field.position.x,
+      y: continuation.y ?? field.position.y,
+      width: field.dimensions.width,
+      height: continuation.height ?? field.dimensions.height,
+    };
 
-    // Draw headers
-    for (let i = 0; i < value.headers.length; i++) {
-      const x = field.position.x + i * columnWidth;
-      const headerText = value.headers[i] || '';
-      
-      page.drawText(headerText, {
-        x: x + cellPadding,
-        y: yPosition - cellPadding,
-        size: fontSize,
-        font,
-        color: Colors.BLACK,
-      });
+    for (let added = 0; paginate && next < table.rows.length && added < maxPages; added++) {
+      const continuationPage = await context.addContinuationPage!(field);
+      this.drawFieldBox(continuationPage, area, field.style);
+      next = TableRenderer.draw(continuationPage, table, area, next);
     }
 
-    yPosition -= rowHeight;
-
-    // Draw rows
-    for (const row of value.rows) {
-      if (yPosition < field.position.y - field.dimensions.height) break;
-      
-      for (let i = 0; i < row.length && i < value.headers.length; i++) {
-        const x = field.position.x + i * columnWidth;
-        
-        page.drawText(String(row[i] || ''), {
-          x: x + cellPadding,
-          y: yPosition - cellPadding,
-          size: fontSize,
-          font,
-          color: Colors.BLACK,
-        });
-      }
-      
-      yPosition -= rowHeight;
+    if (next === table.rows.length) {
+      return [];
     }
+    return [{
+      code: 'TABLE_ROWS_TRUNCATED',
+      message: `${table.rows.length - next} of ${table.rows.length} rows in table '${field.name}' did not fit`,
+      field: field.id,
+      page: field.page,
+      suggestion: paginate
+        ? 'Raise the continuation page limit or enlarge the table area'
+        : 'Enlarge the field or reduce the font size or cell padding',
+    }];
   }
 
   /**
-   * Render signature field
+   * Render signature field: an image, drawn strokes scaled into the padded box, or typed text,
+   * with an optional timestamp caption below the field
    */
   private static async renderSignatureField(
     page: PDFPage,
     field: PDFFieldDefinition,
     value: SignatureConfig,
-    doc: PDFDocument
-  ): Promise<void> {
-    if (!value) return;
+    doc: PDFDocument,
+    context: FieldRenderContext
+  ): Promise<ProcessingWarning[]> {
+    if (!value) return [];
 
+    const warnings: ProcessingWarning[] = [];
     if (value.type === 'image' && value.imageUrl) {
-      await this.renderImageField(page, field, value.imageUrl, doc);
+      await this.renderImageField(page, field, value.imageUrl, doc, context.loadImage);
+    } else if (value.type === 'drawn') {
+      const box = TextLayout.getContentBox({ ...field.position, ...field.dimensions }, field.style.padding);
+      SignatureRenderer.draw(page, value, box, {
+        strokeWidth: field.signature?.strokeWidth,
+        color: field.signature?.strokeColor || field.style.color,
+      });
     } else if (value.type === 'typed' && value.signatureData) {
-      await this.renderTextField(page, field, value.signatureData, doc);
+      warnings.push(...await this.renderTextField(page, field, value.signatureData, doc, context.settings || {}));
     }
 
     // Add timestamp if requested
@@ -770,46 +1256,17 @@ export class FieldProcessor {
       const font = await FontManager.getFont(doc, 'Helvetica');
       const timestampText = `Signed by ${value.certificateInfo.signerName} on ${value.certificateInfo.signingDate}`;
       
+      // Just below the field box, whose position is its bottom-left corner
       page.drawText(timestampText, {
         x: field.position.x,
-        y: field.position.y - field.dimensions.height - 15,
+        y: field.position.y - 10,
         size: 8,
         font,
         color: Colors.GRAY,
       });
     }
-  }
-
-  /**
-   * Wrap text to fit within specified width
-   */
-  private static wrapText(text: string, maxWidth: number, font: PDFFont, fontSize: number): string[] {
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = '';
-
-    for (const word of words) {
-      const testLine = currentLine ? `${currentLine} ${word}` : word;
-      const textWidth = font.widthOfTextAtSize(testLine, fontSize);
-
-      if (textWidth <= maxWidth) {
-        currentLine = testLine;
-      } else {
-        if (currentLine) {
-          lines.push(currentLine);
-          currentLine = word;
-        } else {
-          // Single word too long, add it anyway
-          lines.push(word);
-        }
-      }
-    }
-
-    if (currentLine) {
-      lines.push(currentLine);
-    }
 
-    return lines;
+    return warnings;
   }
 }
 
@@ -0,0 +1,294 @@
+/**
+ * Watermark Renderer
+ * Stamps text or image watermarks on PDF pages, honouring position, tiling, page ranges and page rotation
+ */
+
+import { PDFDocument, PDFPage, PDFFont, PDFImage, rgb, degrees } from 'pdf-lib';
+import { WatermarkConfig, WatermarkPosition } from './types';
+import { FontManager, PDFGenerationError } from './utils';
+
+const DEFAULT_FONT_SIZE = 48;
+const DEFAULT_OPACITY = 0.3;
+const DEFAULT_MARGIN = 36;
+const DEFAULT_TILE_SPACING = 48;
+// Image watermarks without an explicit size span half the page width
+const DEFAULT_IMAGE_WIDTH_RATIO = 0.5;
+
+type WatermarkMark =
+  | { kind: 'text'; text: string; font: PDFFont; size: number }
+  | { kind: 'image'; image: PDFImage };
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Page geometry as the reader sees it, after /Rotate is applied
+ */
+interface VisualPage {
+  width: number;
+  height: number;
+  rotation: number; // 0, 90, 180 or 270
+  originX: number;
+  originY: number;
+  mediaWidth: number;
+  mediaHeight: number;
+}
+
+export class WatermarkRenderer {
+  /**
+   * Apply a watermark to the targeted pages. Image watermarks need the image bytes (PNG or JPEG).
+   * Returns the number of pages stamped.
+   */
+  static async apply(pdfDoc: PDFDocument, watermark: WatermarkConfig, imageBytes?: Uint8Array): Promise<number> {
+    const mark = await this.prepareMark(pdfDoc, watermark, imageBytes);
+    const pages = pdfDoc.getPages();
+    const targets = this.parsePageRange(watermark.pages, pages.length);
+
+    for (const pageIndex of targets) {
+      this.stampPage(pages[pageIndex]!, mark, watermark);
+    }
+
+    return targets.length;
+  }
+
+  /**
+   * Resolve a page selection ("1-3,5" or [1, 2]) to zero-based page indices; all pages when omitted
+   */
+  static parsePageRange(pages: WatermarkConfig['pages'], pageCount: number): number[] {
+    if (pages === undefined || (Array.isArray(pages) && pages.length === 0)) {
+      return Array.from({ length: pageCount }, (_, i) => i);
+    }
+
+    const selected = new Set<number>();
+    const add = (pageNumber: number) => {
+      if (Number.isInteger(pageNumber) && pageNumber >= 1 && pageNumber <= pageCount) {
+        selected.add(pageNumber - 1);
+      }
+    };
+
+    if (Array.isArray(pages)) {
+      pages.forEach(add);
+    } else {
+      for (const part of pages.split(',')) {
+        const [start, end] = part.split('-').map(value => parseInt(value.trim(), 10));
+        if (start === undefined || Number.isNaN(start)) continue;
+
+        const last = end === undefined || Number.isNaN(end) ? start : Math.min(end, pageCount);
+        for (let pageNumber = start; pageNumber <= last; pageNumber++) {
+          add(pageNumber);
+        }
+      }
+    }
+
+    return [...selected].sort((a, b) => a - b);
+  }
+
+  private static async prepareMark(
+    pdfDoc: PDFDocument,
+    watermark: WatermarkConfig,
+    imageBytes?: Uint8Array
+  ): Promise<WatermarkMark> {
+    if (watermark.image) {
+      if (!imageBytes) {
+        throw new PDFGenerationError('Watermark image could not be loaded', 'WATERMARK_IMAGE_MISSING', {
+          fileId: watermark.image.fileId,
+        });
+      }
+
+      return { kind: 'image', image: await this.embedImage(pdfDoc, imageBytes) };
+    }
+
+    if (!watermark.text) {
+      throw new PDFGenerationError('Watermark text or image is required', 'INVALID_WATERMARK');
+    }
+
+    return {
+      kind: 'text',
+      text: watermark.text,
+      font: await FontManager.getFont(pdfDoc, watermark.font || 'Helvetica'),
+      size: watermark.fontSize || DEFAULT_FONT_SIZE,
+    };
+  }
+
+  private static async embedImage(pdfDoc: PDFDocument, bytes: Uint8Array): Promise<PDFImage> {
+    // Sniff the format from the magic bytes rather than trusting the stored MIME type
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+      return pdfDoc.embedPng(bytes);
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return pdfDoc.embedJpg(bytes);
+    }
+
+    throw new PDFGenerationError('Watermark image must be a PNG or JPEG file', 'UNSUPPORTED_WATERMARK_IMAGE');
+  }
+
+  private static stampPage(page: PDFPage, mark: WatermarkMark, watermark: WatermarkConfig): void {
+    const visual = this.getVisualPage(page);
+    const { width, height } = this.getMarkSize(mark, watermark, visual);
+
+    // The default angle follows the page diagonal, so landscape pages are covered corner to corner
+    const rotation = watermark.rotation ?? -Math.atan2(visual.height, visual.width) * 180 / Math.PI;
+    const radians = rotation * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+
+    // Half extents of the rotated mark's bounding box
+    const halfWidth = (Math.abs(width * cos) + Math.abs(height * sin)) / 2;
+    const halfHeight = (Math.abs(width * sin) + Math.abs(height * cos)) / 2;
+
+    const centres = watermark.tiled
+      ? this.getTileCentres(visual, halfWidth, halfHeight, watermark.tileSpacing ?? DEFAULT_TILE_SPACING)
+      : [this.getPositionCentre(watermark.position || 'center', visual, halfWidth, halfHeight, watermark.margin ?? DEFAULT_MARGIN)];
+
+    for (const centre of centres) {
+      // pdf-lib rotates around the drawing origin (bottom-left of the mark), so step back from the centre
+      const origin = this.toUserSpace({
+        x: centre.x - (width / 2 * cos - height / 2 * sin),
+        y: centre.y - (width / 2 * sin + height / 2 * cos),
+      }, visual);
+      const angle = degrees(rotation + visual.rotation);
+      const opacity = watermark.opacity ?? DEFAULT_OPACITY;
+
+      if (mark.kind === 'text') {
+        page.drawText(mark.text, {
+          x: origin.x,
+          y: origin.y,
+          size: mark.size,
+          font: mark.font,
+          color: watermark.color || rgb(0.8, 0.8, 0.8),
+          opacity,
+          rotate: angle,
+        });
+      } else {
+        page.drawImage(mark.image, {
+          x: origin.x,
+          y: origin.y,
+          width,
+          height,
+          opacity,
+          rotate: angle,
+        });
+      }
+    }
+  }
+
+  /**
+   * Unrotated size of the mark. Text boxes run from the baseline to the ascender so the letters centre visually.
+   */
+  private static getMarkSize(
+    mark: WatermarkMark,
+    watermark: WatermarkConfig,
+    visual: VisualPage
+  ): { width: number; height: number } {
+    if (mark.kind === 'text') {
+      return {
+        width: mark.font.widthOfTextAtSize(mark.text, mark.size),
+        height: mark.font.heightAtSize(mark.size, { descender: false }),
+      };
+    }
+
+    const { width: naturalWidth, height: naturalHeight } = mark.image.size();
+    const options = watermark.image || { fileId: '' };
+    const scale = options.width !== undefined
+      ? options.width / naturalWidth
+      : options.scale ?? (visual.width * DEFAULT_IMAGE_WIDTH_RATIO) / naturalWidth;
+
+    return { width: naturalWidth * scale, height: naturalHeight * scale };
+  }
+
+  private static getPositionCentre(
+    position: WatermarkPosition,
+    visual: VisualPage,
+    halfWidth: number,
+    halfHeight: number,
+    margin: number
+  ): Point {
+    // Absolute positions give the centre of the mark in points from the bottom-left of the visible page
+    if (typeof position === 'object') {
+      return { x: position.x, y: position.y };
+    }
+
+    const left = margin + halfWidth;
+    const right = visual.width - margin - halfWidth;
+    const bottom = margin + halfHeight;
+    const top = visual.height - margin - halfHeight;
+    const centreX = visual.width / 2;
+    const centreY = visual.height / 2;
+
+    switch (position) {
+      case 'top-left':
+        return { x: left, y: top };
+      case 'top-center':
+        return { x: centreX, y: top };
+      case 'top-right':
+        return { x: right, y: top };
+      case 'bottom-left':
+        return { x: left, y: bottom };
+      case 'bottom-center':
+        return { x: centreX, y: bottom };
+      case 'bottom-right':
+        return { x: right, y: bottom };
+      case 'center':
+      default:
+        return { x: centreX, y: centreY };
+    }
+  }
+
+  /**
+   * Grid of centres radiating from the page centre, spaced by the rotated mark size plus the gap
+   */
+  private static getTileCentres(visual: VisualPage, halfWidth: number, halfHeight: number, spacing: number): Point[] {
+    const stepX = halfWidth * 2 + spacing;
+    const stepY = halfHeight * 2 + spacing;
+    const columns = Math.ceil(visual.width / 2 / stepX);
+    const rows = Math.ceil(visual.height / 2 / stepY);
+    const centres: Point[] = [];
+
+    for (let row = -rows; row <= rows; row++) {
+      for (let column = -columns; column <= columns; column++) {
+        centres.push({
+          x: visual.width / 2 + column * stepX,
+          y: visual.height / 2 + row * stepY,
+        });
+      }
+    }
+
+    return centres;
+  }
+
+  private static getVisualPage(page: PDFPage): VisualPage {
+    const mediaBox = page.getMediaBox();
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const quarterTurn = rotation === 90 || rotation === 270;
+
+    return {
+      width: quarterTurn ? mediaBox.height : mediaBox.width,
+      height: quarterTurn ? mediaBox.width : mediaBox.height,
+      rotation,
+      originX: mediaBox.x,
+      originY: mediaBox.y,
+      mediaWidth: mediaBox.width,
+      mediaHeight: mediaBox.height,
+    };
+  }
+
+  /**
+   * Map a point on the visible page to PDF user space, undoing the page's /Rotate
+   */
+  private static toUserSpace(point: Point, visual: VisualPage): Point {
+    const { mediaWidth, mediaHeight, originX, originY } = visual;
+
+    switch (visual.rotation) {
+      case 90:
+        return { x: originX + mediaWidth - point.y, y: originY + point.x };
+      case 180:
+        return { x: originX + mediaWidth - point.x, y: originY + mediaHeight - point.y };
+      case 270:
+        return { x: originX + point.y, y: originY + mediaHeight - point.x };
+      default:
+        return { x: originX + point.x, y: originY + point.y };
+    }
+  }
+}
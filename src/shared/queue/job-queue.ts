@@ -0,0 +1,134 @@
+/**
+ * PDF Job Queue
+ * Dispatches asynchronous PDF generation jobs to SQS, an ElasticMQ endpoint, or an in-process stand-in
+ */
+
+import {
+  SQSClient,
+  SendMessageCommand,
+  ReceiveMessageCommand,
+  DeleteMessageCommand,
+  Message,
+} from '@aws-sdk/client-sqs';
+import { PDFGenerationOptions, BulkBatchOptions, RasterOptions } from '@/shared/pdf/types';
+
+// Messages are stored by the queue in plain text, so document passwords never go on it
+export type QueuedGenerationOptions = Omit<PDFGenerationOptions, 'security'>;
+
+export interface GenerationJobMessage {
+  type?: 'single' | 'bulk';
+  pdfId: string;
+  options?: QueuedGenerationOptions;
+  // Image output: pages are rasterized after the PDF is rendered
+  raster?: RasterOptions;
+  // Bulk jobs: S3 key of the uploaded data array, batch settings and the first record of the chunk to render
+  inputKey?: string;
+  batchOptions?: BulkBatchOptions;
+  offset?: number;
+}
+
+export type JobHandler = (message: GenerationJobMessage) => Promise<void>;
+
+export interface JobQueue {
+  enqueue(message: GenerationJobMessage): Promise<void>;
+}
+
+/**
+ * SQS-backed queue. Setting SQS_ENDPOINT points the client at ElasticMQ for offline runs.
+ */
+export class SqsJobQueue implements JobQueue {
+  private client: SQSClient;
+
+  constructor(private queueUrl: string, endpoint?: string) {
+    this.client = new SQSClient({
+      region: process.env['REGION'] || 'us-east-1',
+      ...(endpoint && { endpoint }),
+    });
+  }
+
+  async enqueue(message: GenerationJobMessage): Promise<void> {
+    await this.client.send(new SendMessageCommand({
+      QueueUrl: this.queueUrl,
+      MessageBody: JSON.stringify(message),
+    }));
+  }
+
+  /**
+   * Receive and process messages until the queue is empty (for local ElasticMQ runs)
+   */
+  async drain(handler: JobHandler): Promise<number> {
+    let processed = 0;
+    let messages: Message[];
+
+    do {
+      const response = await this.client.send(new ReceiveMessageCommand({
+        QueueUrl: this.queueUrl,
+        MaxNumberOfMessages: 10,
+        WaitTimeSeconds: 0,
+      }));
+
+      messages = response.Messages || [];
+      for (const message of messages) {
+        await handler(JSON.parse(message.Body || '{}') as GenerationJobMessage);
+        await this.client.send(new DeleteMessageCommand({
+          QueueUrl: this.queueUrl,
+          ReceiptHandle: message.ReceiptHandle,
+        }));
+        processed++;
+      }
+    } while (messages.length > 0);
+
+    return processed;
+  }
+}
+
+/**
+ * In-process queue that runs the handler on the next tick, for tests and local development
+ */
+export class InProcessJobQueue implements JobQueue {
+  private pending = new Set<Promise<void>>();
+
+  constructor(private handler: JobHandler) {}
+
+  enqueue(message: GenerationJobMessage): Promise<void> {
+    const job = new Promise<void>((resolve) => setImmediate(resolve))
+      .then(() => this.handler(message))
+      .catch((error: unknown) => console.error('In-process job failed:', { pdfId: message.pdfId, error }))
+      .finally(() => this.pending.delete(job));
+
+    this.pending.add(job);
+    return Promise.resolve();
+  }
+
+  /**
+   * Wait for every enqueued job to settle
+   */
+  async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all([...this.pending]);
+    }
+  }
+}
+
+/**
+ * Create the queue configured for this environment.
+ * JOB_QUEUE_DRIVER=local forces the in-process queue; otherwise PDF_JOBS_QUEUE_URL selects SQS.
+ * Inside Lambda the in-process queue is only used when forced: a job it runs after the handler has
+ * returned would be frozen or dropped with the execution environment.
+ */
+export function createJobQueue(localHandler: JobHandler): JobQueue {
+  const driver = process.env['JOB_QUEUE_DRIVER'];
+  const queueUrl = process.env['PDF_JOBS_QUEUE_URL'];
+
+  if (driver === 'local' || (!queueUrl && !process.env['AWS_LAMBDA_FUNCTION_NAME'])) {
+    return new InProcessJobQueue(localHandler);
+  }
+
+  if (!queueUrl) {
+    return {
+      enqueue: () => Promise.reject(new Error('PDF_JOBS_QUEUE_URL is not set for this function')),
+    };
+  }
+
+  return new SqsJobQueue(queueUrl, process.env['SQS_ENDPOINT']);
+}
@@ -0,0 +1,419 @@
+/**
+ * Bulk PDF Service
+ * Renders one PDF per data record from a single template and optionally bundles them into a ZIP archive
+ */
+
+import { Readable, Transform } from 'stream';
+import JSZip from 'jszip';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { BulkBatchOptions, PDFGenerationOptions, PDFProcessingResult } from '@/shared/pdf/types';
+import { BulkPDFProcessingResultInput } from '@/shared/pdf/schemas';
+import { GeneratedPdfRepository, TemplateRepository, GeneratedPdf, Template } from '@/shared/database';
+import { s3Storage, BUCKET_NAME } from '@/shared/storage/s3-client';
+import { createJobQueue, GenerationJobMessage, JobQueue } from '@/shared/queue/job-queue';
+import { mapWithConcurrency } from '@/shared/utils/concurrency';
+import { generatedPdfService } from './generated-pdf-service';
+
+// Larger batches must run as a job to stay within the API Gateway timeout
+export const BULK_SYNC_MAX_RECORDS = 25;
+
+// Records a job renders per queue message. Each chunk queues the next one, so a worker run renders one chunk.
+export const BULK_JOB_CHUNK_SIZE = 100;
+
+// Failed records kept on the job record (the full list is in the archive manifest)
+const MAX_RECORDED_FAILURES = 100;
+
+export interface BulkGenerationInput {
+  userId: string;
+  template: Template;
+  dataArray: Array<Record<string, unknown>>;
+  options?: PDFGenerationOptions;
+  batchOptions: BulkBatchOptions;
+}
+
+export type BulkGenerationResult = BulkPDFProcessingResultInput;
+export type BulkRecordResult = BulkGenerationResult['results'][number];
+
+// A record result with the S3 key of its PDF, which the archive is built from
+type StoredRecordResult = BulkRecordResult & { s3Key?: string };
+
+type RecordSummary = Pick<BulkGenerationResult, 'totalRequests' | 'successfulRequests' | 'failedRequests'>;
+
+export class BulkPdfService {
+  private generatedPdfsRepo = new GeneratedPdfRepository();
+  private templatesRepo = new TemplateRepository();
+  private jobQueue: JobQueue = createJobQueue((message) => this.processJob(message));
+
+  /**
+   * Generate every record and return per-record results plus the optional archive
+   */
+  async generate(input: BulkGenerationInput): Promise<BulkGenerationResult> {
+    const startTime = Date.now();
+    const records = await this.generateRecords(input, 0, input.dataArray.length);
+    const summary = this.summarize(records);
+
+    const archiveInfo = input.batchOptions.archive
+      ? await this.storeArchive(input.template, input.userId, summary, records)
+      : undefined;
+
+    return {
+      success: summary.failedRequests === 0,
+      ...summary,
+      results: records.map(({ s3Key: _s3Key, ...record }) => record),
+      archive: archiveInfo,
+      processingTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Store the data array in S3 and queue the batch, tracked by a GeneratedPdf record for the archive
+   */
+  async enqueue(input: BulkGenerationInput): Promise<GeneratedPdf> {
+    const options = generatedPdfService.toQueuedOptions(input.options);
+    const fileName = generatedPdfService.buildFileName(input.template.name, 'zip');
+    const batchOptions = { ...input.batchOptions, archive: true };
+
+    const job = await this.generatedPdfsRepo.create({
+      userId: input.userId,
+      templateId: input.template.id,
+      fileName,
+      s3Bucket: BUCKET_NAME,
+      s3Key: s3Storage.generateFileKey(input.userId, fileName, 'generated'),
+      fieldValues: {},
+      metadata: {
+        outputFormat: 'zip',
+        bulk: { totalRequests: input.dataArray.length, batchOptions },
+        job: { mode: 'async', stage: 'QUEUED', progress: 0, queuedAt: new Date().toISOString() },
+      },
+    });
+
+    try {
+      const inputKey = s3Storage.generateFileKey(input.userId, `${job.id}.json`, 'bulk-input');
+      await s3Storage.uploadFile(inputKey, JSON.stringify(input.dataArray), 'application/json');
+
+      await this.jobQueue.enqueue({
+        type: 'bulk',
+        pdfId: job.id,
+        inputKey,
+        options,
+        batchOptions,
+        offset: 0,
+      });
+    } catch (error) {
+      await generatedPdfService.markFailed(job, 'QUEUE_ERROR', error);
+      throw error;
+    }
+
+    return job;
+  }
+
+  /**
+   * Worker entry point for queued bulk jobs. Each message renders one chunk of records and queues the next;
+   * the last chunk builds the archive. Record IDs are derived from the job and record index, so a redelivered
+   * message skips records that were already generated and replaces unfinished ones instead of adding more.
+   */
+  async processJob(message: GenerationJobMessage): Promise<void> {
+    // The GSI lookup is eventually consistent, so a missing record is retried by the queue
+    const job = await this.generatedPdfsRepo.findById(message.pdfId);
+    if (!job) {
+      throw new Error(`Bulk generation job not found: ${message.pdfId}`);
+    }
+
+    if (job.status !== 'GENERATING') {
+      console.log('Skipping bulk job in status:', { pdfId: job.id, status: job.status });
+      return;
+    }
+
+    const template = await this.templatesRepo.findById(job.templateId);
+    if (!template || !message.inputKey || !message.batchOptions) {
+      await generatedPdfService.markFailed(job, 'INVALID_JOB', new Error('Bulk job template or input is missing'));
+      return;
+    }
+
+    const offset = message.offset ?? 0;
+    let current = offset === 0
+      ? await generatedPdfService.updateJob(job, { stage: 'RENDERING', progress: 5, startedAt: new Date().toISOString() })
+      : job;
+
+    try {
+      const dataArray = JSON.parse((await s3Storage.getFile(message.inputKey)).toString('utf-8')) as Array<Record<string, unknown>>;
+      const input: BulkGenerationInput = {
+        userId: job.userId,
+        template,
+        dataArray,
+        options: message.options,
+        batchOptions: message.batchOptions,
+      };
+
+      const end = Math.min(offset + BULK_JOB_CHUNK_SIZE, dataArray.length);
+      const records = await this.generateRecords(input, offset, end, job.id);
+      await s3Storage.uploadFile(this.getChunkResultsKey(message.inputKey, offset), JSON.stringify(records), 'application/json');
+
+      // failFast stops at the first chunk with a failure; the records after it are reported as skipped
+      const stopped = message.batchOptions.failFast && records.some(record => !record.success);
+      if (end < dataArray.length && !stopped) {
+        await generatedPdfService.updateJob(current, {
+          progress: 5 + Math.round((end / dataArray.length) * 85),
+        });
+        await this.jobQueue.enqueue({ ...message, offset: end });
+        return;
+      }
+
+      current = await generatedPdfService.updateJob(current, { stage: 'UPLOADING', progress: 90 });
+      await this.completeJob(current, input, message.inputKey, end);
+    } catch (error) {
+      console.error('Bulk generation job failed:', { pdfId: job.id, offset, error });
+      await generatedPdfService.markFailed(current, 'BULK_GENERATION_ERROR', error);
+    }
+  }
+
+  /**
+   * Collect the results of every rendered chunk, store the archive and mark the job finished
+   */
+  private async completeJob(job: GeneratedPdf, input: BulkGenerationInput, inputKey: string, end: number): Promise<void> {
+    const startedAt = (job.metadata['job'] as { startedAt?: string } | undefined)?.startedAt;
+    const chunkKeys: string[] = [];
+    for (let offset = 0; offset < end; offset += BULK_JOB_CHUNK_SIZE) {
+      chunkKeys.push(this.getChunkResultsKey(inputKey, offset));
+    }
+
+    const rendered: StoredRecordResult[] = [];
+    for (const key of chunkKeys) {
+      rendered.push(...JSON.parse((await s3Storage.getFile(key)).toString('utf-8')) as StoredRecordResult[]);
+    }
+    const records = [
+      ...rendered,
+      ...input.dataArray.slice(end).map((_, index) => this.skippedRecord(end + index)),
+    ];
+    const summary = this.summarize(records);
+
+    const archive = await this.storeArchive(input.template, input.userId, summary, records, {
+      fileName: job.fileName,
+      s3Key: job.s3Key,
+    });
+
+    const failures = records
+      .filter(r => !r.success)
+      .slice(0, MAX_RECORDED_FAILURES)
+      .map(({ index, error }) => ({ index, error }));
+
+    await generatedPdfService.updateJob(job, {
+      stage: summary.successfulRequests > 0 ? 'COMPLETED' : 'FAILED',
+      progress: 100,
+      completedAt: new Date().toISOString(),
+    }, {
+      status: summary.successfulRequests > 0 ? 'COMPLETED' : 'FAILED',
+      fileSize: archive.fileSize,
+      metadata: {
+        ...job.metadata,
+        bulk: {
+          ...job.metadata['bulk'] as Record<string, unknown> | undefined,
+          ...summary,
+          failures,
+        },
+        ...(startedAt && { processingTime: Date.now() - Date.parse(startedAt) }),
+      },
+    });
+
+    await Promise.all([inputKey, ...chunkKeys].map(key => s3Storage.deleteFile(key)));
+  }
+
+  /**
+   * Generate the records from `start` up to `end`. Job records get IDs derived from the job ID and index,
+   * so a retried chunk reuses the records it already created.
+   */
+  private async generateRecords(
+    input: BulkGenerationInput,
+    start: number,
+    end: number,
+    jobId?: string
+  ): Promise<StoredRecordResult[]> {
+    const { concurrent, failFast, includeIndex } = input.batchOptions;
+    const indexWidth = String(Math.max(input.dataArray.length - 1, 0)).length;
+    let hasFailure = false;
+
+    const outcomes = await mapWithConcurrency(input.dataArray.slice(start, end), concurrent, async (fieldValues, offset) => {
+      const index = start + offset;
+      const suffix = includeIndex ? String(index).padStart(indexWidth, '0') : uuidv4();
+      const record = await this.generateRecord(input, fieldValues, index, suffix, jobId && uuidv5(String(index), jobId));
+
+      if (!record.success) {
+        hasFailure = true;
+      }
+
+      return record;
+    }, () => failFast && hasFailure);
+
+    return outcomes.map((outcome, offset) => outcome ?? this.skippedRecord(start + offset));
+  }
+
+  /**
+   * Generate and store a single record. A record that was already generated under the given ID is
+   * reported as it is.
+   */
+  private async generateRecord(
+    input: BulkGenerationInput,
+    fieldValues: Record<string, unknown>,
+    index: number,
+    suffix: string,
+    id?: string
+  ): Promise<StoredRecordResult> {
+    try {
+      const existing = id ? await this.generatedPdfsRepo.findById(id) : null;
+      if (existing && existing.status !== 'GENERATING') {
+        return this.storedRecord(index, existing);
+      }
+
+      const { pdf, result, downloadUrl } = await generatedPdfService.generateAndStore({
+        userId: input.userId,
+        template: input.template,
+        fieldValues,
+        options: input.options,
+        fileName: generatedPdfService.buildFileName(input.template.name, 'pdf', suffix),
+        id,
+      });
+
+      return {
+        index,
+        success: result.success,
+        pdfId: pdf.id,
+        fileName: pdf.fileName,
+        s3Key: pdf.s3Key,
+        result: this.summarizeResult(result, downloadUrl),
+        ...(!result.success && { error: result.errors?.[0]?.message || 'PDF generation failed' }),
+      };
+    } catch (error) {
+      return {
+        index,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Result of a record generated by an earlier delivery of the same job message
+   */
+  private storedRecord(index: number, pdf: GeneratedPdf): StoredRecordResult {
+    const errors = pdf.metadata['errors'] as Array<{ message?: string }> | undefined;
+    const success = pdf.status === 'COMPLETED';
+
+    return {
+      index,
+      success,
+      pdfId: pdf.id,
+      fileName: pdf.fileName,
+      s3Key: pdf.s3Key,
+      ...(!success && { error: errors?.[0]?.message || 'PDF generation failed' }),
+    };
+  }
+
+  private skippedRecord(index: number): StoredRecordResult {
+    return {
+      index,
+      success: false,
+      error: 'Skipped after an earlier failure (failFast)',
+    };
+  }
+
+  private summarize(records: StoredRecordResult[]): RecordSummary {
+    const successfulRequests = records.filter(r => r.success).length;
+    return {
+      totalRequests: records.length,
+      successfulRequests,
+      failedRequests: records.length - successfulRequests,
+    };
+  }
+
+  /**
+   * Drop document bytes from a result so it can be returned in the batch response
+   */
+  private summarizeResult(result: PDFProcessingResult, downloadUrl?: string): PDFProcessingResult {
+    return {
+      success: result.success,
+      metadata: result.metadata,
+      errors: result.errors,
+      warnings: result.warnings,
+      ...(downloadUrl && { downloadUrl }),
+    };
+  }
+
+  /**
+   * Add the manifest and stream the ZIP to S3. Each PDF is read from S3 only when the archive reaches it.
+   */
+  private async storeArchive(
+    template: Template,
+    userId: string,
+    summary: RecordSummary,
+    records: StoredRecordResult[],
+    target?: { fileName: string; s3Key: string }
+  ): Promise<NonNullable<BulkGenerationResult['archive']>> {
+    const manifest = {
+      templateId: template.id,
+      templateName: template.name,
+      generatedAt: new Date().toISOString(),
+      ...summary,
+      records: records.map(({ index, success, pdfId, fileName, error }) => ({
+        index,
+        success,
+        ...(pdfId && { pdfId }),
+        ...(success && fileName && { fileName }),
+        ...(error && { error }),
+      })),
+    };
+
+    const zip = new JSZip();
+    for (const record of records) {
+      if (record.success && record.fileName && record.s3Key) {
+        // PDFs are already compressed
+        zip.file(record.fileName, this.openWhenRead(record.s3Key), { compression: 'STORE' });
+      }
+    }
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    const fileName = target?.fileName || generatedPdfService.buildFileName(template.name, 'zip');
+    const s3Key = target?.s3Key || s3Storage.generateFileKey(userId, fileName, 'generated');
+
+    let fileSize = 0;
+    const archive = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        fileSize += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    const zipStream = zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' });
+    zipStream.on('error', (error: Error) => archive.destroy(error));
+    zipStream.pipe(archive);
+
+    await s3Storage.uploadStream(s3Key, archive, 'application/zip', {
+      templateId: template.id,
+    });
+
+    return {
+      fileName,
+      s3Key,
+      fileSize,
+      downloadUrl: await s3Storage.generateDownloadUrl(s3Key),
+    };
+  }
+
+  /**
+   * A stream of an S3 object that only requests the object once it is first read
+   */
+  private openWhenRead(key: string): Readable {
+    return Readable.from((async function* () {
+      yield* await s3Storage.getFileStream(key);
+    })());
+  }
+
+  /**
+   * Where a job stores the results of the chunk starting at `offset`, next to its input
+   */
+  private getChunkResultsKey(inputKey: string, offset: number): string {
+    return inputKey.replace(/(\.json)?$/, `-results-${offset}.json`);
+  }
+}
+
+// Export singleton instance
+export const bulkPdfService = new BulkPdfService();
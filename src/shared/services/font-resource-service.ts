@@ -0,0 +1,132 @@
+/**
+ * Font Resource Service
+ * Loads custom TrueType/OpenType font files referenced by templates from S3, uploaded files or bundled assets
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { FontResource, FontVariant } from '@/shared/pdf/types';
+import { UploadedFileRepository } from '@/shared/database';
+import { s3Storage } from '@/shared/storage/s3-client';
+
+// Font files are immutable once referenced, so a warm container keeps the most recent ones
+const MAX_CACHED_FONTS = 20;
+
+// Bundled fonts ship with the deployment package under this directory
+const FONT_ASSETS_DIR = process.env['FONT_ASSETS_DIR'] || path.join(process.cwd(), 'assets', 'fonts');
+
+export class FontResourceService {
+  private uploadedFilesRepo = new UploadedFileRepository();
+  private bytesCache = new Map<string, Uint8Array>();
+
+  /**
+   * Load the font file for one variant of a font resource
+   */
+  async loadVariant(resource: FontResource, variant: FontVariant): Promise<Uint8Array> {
+    if (variant.buffer) {
+      return this.assertFontFile(new Uint8Array(variant.buffer), resource.family);
+    }
+
+    const cacheKey = variant.fileId
+      ? `file:${variant.fileId}`
+      : `${resource.source.type}:${variant.url || resource.source.url}`;
+
+    const cached = this.bytesCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const bytes = this.assertFontFile(await this.fetchVariant(resource, variant), resource.family);
+
+    if (this.bytesCache.size >= MAX_CACHED_FONTS) {
+      const oldestKey = this.bytesCache.keys().next().value;
+      if (oldestKey !== undefined) this.bytesCache.delete(oldestKey);
+    }
+    this.bytesCache.set(cacheKey, bytes);
+
+    return bytes;
+  }
+
+  /**
+   * Check that every uploaded file or S3 key referenced by the fonts belongs to the user.
+   * Returns a description of the first source the user cannot use, or null.
+   */
+  async findInaccessibleSource(userId: string, fonts: FontResource[]): Promise<string | null> {
+    for (const resource of fonts) {
+      for (const variant of resource.variants) {
+        if (variant.fileId) {
+          const file = await this.uploadedFilesRepo.findByUserAndId(userId, variant.fileId);
+          if (!file || file.uploadStatus === 'DELETED') {
+            return `Font file ${variant.fileId} for '${resource.family}' was not found`;
+          }
+        } else if (resource.source.type === 's3') {
+          const key = variant.url || resource.source.url || '';
+          if (key.startsWith('s3://') || !key.startsWith(`users/${userId}/`)) {
+            return `Font '${resource.family}' must reference an S3 key under your own files`;
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private async fetchVariant(resource: FontResource, variant: FontVariant): Promise<Uint8Array> {
+    if (variant.fileId) {
+      const file = await this.uploadedFilesRepo.findById(variant.fileId);
+      if (!file || file.uploadStatus === 'DELETED') {
+        throw new Error(`Uploaded font file not found: ${variant.fileId}`);
+      }
+      return s3Storage.getFile(file.s3Key, file.s3Bucket);
+    }
+
+    const location = variant.url || resource.source.url;
+    if (!location) {
+      throw new Error(`Font '${resource.family}' has no file location`);
+    }
+
+    switch (resource.source.type) {
+      case 's3': {
+        // Either s3://bucket/key or a key in the files bucket
+        const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(location);
+        return match
+          ? s3Storage.getFile(decodeURIComponent(match[2]!), match[1])
+          : s3Storage.getFile(location);
+      }
+
+      case 'embedded':
+        return fs.readFile(this.getBundledFontPath(location));
+
+      default:
+        throw new Error(`Font source '${resource.source.type}' cannot be embedded`);
+    }
+  }
+
+  /**
+   * Resolve a bundled font path, refusing anything outside the font directory
+   */
+  private getBundledFontPath(relativePath: string): string {
+    const fontPath = path.resolve(FONT_ASSETS_DIR, relativePath);
+    if (!fontPath.startsWith(path.resolve(FONT_ASSETS_DIR) + path.sep)) {
+      throw new Error(`Invalid bundled font path: ${relativePath}`);
+    }
+    return fontPath;
+  }
+
+  /**
+   * Only single TrueType and OpenType (CFF) fonts can be embedded; collections and web fonts are rejected
+   */
+  private assertFontFile(bytes: Uint8Array, family: string): Uint8Array {
+    const signature = Buffer.from(bytes.subarray(0, 4)).toString('latin1');
+    const isTrueType = bytes[0] === 0x00 && bytes[1] === 0x01 && bytes[2] === 0x00 && bytes[3] === 0x00;
+
+    if (!isTrueType && signature !== 'OTTO' && signature !== 'true') {
+      throw new Error(`Font '${family}' is not a TrueType or OpenType file`);
+    }
+
+    return bytes;
+  }
+}
+
+// Export singleton instance
+export const fontResourceService = new FontResourceService();
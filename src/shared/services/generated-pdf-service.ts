@@ -0,0 +1,393 @@
+/**
+ * Generated PDF Service
+ * Renders a template with field values, stores the output in S3 and tracks it as a GeneratedPdf record
+ */
+
+import { PDFGenerator } from '@/shared/pdf/generator';
+import { PDFRasterizer, pdfRasterizer } from '@/shared/pdf/rasterizer';
+import {
+  PDFGenerationOptions,
+  PDFProcessingResult,
+  ProcessingError,
+  RasterOptions,
+  RasterizedPage,
+} from '@/shared/pdf/types';
+import {
+  GeneratedPdfRepository,
+  TemplateRepository,
+  UploadedFileRepository,
+  GeneratedPdf,
+  GeneratedImage,
+  GenerationJobState,
+  Template,
+  UpdateGeneratedPdfInput,
+} from '@/shared/database';
+import { s3Storage, BUCKET_NAME } from '@/shared/storage/s3-client';
+import { createJobQueue, GenerationJobMessage, JobQueue, QueuedGenerationOptions } from '@/shared/queue/job-queue';
+
+export interface GenerateAndStoreInput {
+  userId: string;
+  template: Template;
+  fieldValues: Record<string, unknown>;
+  options?: PDFGenerationOptions;
+  // Store PNG/JPEG page images instead of the PDF
+  raster?: RasterOptions;
+  fileName?: string;
+  // Record ID for a document that may be generated again, such as a record of a retried bulk job
+  id?: string;
+}
+
+export interface StoredImage extends GeneratedImage {
+  downloadUrl: string;
+}
+
+export interface GenerateAndStoreResult {
+  pdf: GeneratedPdf;
+  result: PDFProcessingResult;
+  downloadUrl?: string;
+  images?: StoredImage[];
+}
+
+export class GeneratedPdfService {
+  private generator = new PDFGenerator();
+  private generatedPdfsRepo = new GeneratedPdfRepository();
+  private templatesRepo = new TemplateRepository();
+  private uploadedFilesRepo = new UploadedFileRepository();
+  private jobQueue: JobQueue = createJobQueue((message) => this.processJob(message).then(() => undefined));
+
+  /**
+   * Generate a PDF, upload it under the user's prefix and record the outcome
+   */
+  async generateAndStore(input: GenerateAndStoreInput): Promise<GenerateAndStoreResult> {
+    const pdf = await this.createRecord(input, 'sync');
+    return this.renderAndStore(pdf, input.template, input.options, input.raster);
+  }
+
+  /**
+   * Create a GENERATING record and hand the rendering off to the job queue
+   */
+  async enqueueGeneration(input: GenerateAndStoreInput): Promise<GeneratedPdf> {
+    const options = this.toQueuedOptions(input.options);
+    const pdf = await this.createRecord(input, 'async');
+
+    try {
+      await this.jobQueue.enqueue({ pdfId: pdf.id, options, raster: input.raster });
+    } catch (error) {
+      await this.markFailed(pdf, 'QUEUE_ERROR', error);
+      throw error;
+    }
+
+    return pdf;
+  }
+
+  /**
+   * Worker entry point: render a queued job and move its status forward
+   */
+  async processJob(message: GenerationJobMessage): Promise<GenerateAndStoreResult | null> {
+    // The GSI lookup is eventually consistent, so a missing record is retried by the queue
+    const pdf = await this.generatedPdfsRepo.findById(message.pdfId);
+    if (!pdf) {
+      throw new Error(`Generation job not found: ${message.pdfId}`);
+    }
+
+    // Redelivered messages for finished jobs are ignored
+    if (pdf.status !== 'GENERATING') {
+      console.log('Skipping generation job in status:', { pdfId: pdf.id, status: pdf.status });
+      return null;
+    }
+
+    const template = await this.templatesRepo.findById(pdf.templateId);
+    if (!template) {
+      await this.markFailed(pdf, 'TEMPLATE_NOT_FOUND', new Error(`Template not found: ${pdf.templateId}`));
+      return null;
+    }
+
+    try {
+      return await this.renderAndStore(pdf, template, message.options, message.raster);
+    } catch (error) {
+      console.error('Generation job failed:', { pdfId: pdf.id, error });
+      return null;
+    }
+  }
+
+  /**
+   * Options as they can go on the job queue. Security options carry passwords, which are never queued.
+   */
+  toQueuedOptions(options?: PDFGenerationOptions): QueuedGenerationOptions | undefined {
+    if (options?.security) {
+      throw new Error('Security options are only supported for synchronous generation');
+    }
+    return options;
+  }
+
+  /**
+   * Check that uploaded files referenced by the options (the watermark image) belong to the user.
+   * Returns the ID of the first file the user cannot use, or null.
+   */
+  async findInaccessibleFile(userId: string, options?: PDFGenerationOptions): Promise<string | null> {
+    const fileId = options?.watermark?.image?.fileId;
+    if (!fileId) {
+      return null;
+    }
+
+    const file = await this.uploadedFilesRepo.findByUserAndId(userId, fileId);
+    return file && file.uploadStatus !== 'DELETED' ? null : fileId;
+  }
+
+  /**
+   * Build a download-friendly file name from the template name
+   */
+  buildFileName(templateName: string, extension: string = 'pdf', suffix: string = String(Date.now())): string {
+    const baseName = templateName.trim().replace(/[^a-zA-Z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'document';
+    return `${baseName}-${suffix}.${extension}`;
+  }
+
+  /**
+   * Attach fresh download URLs to the page images recorded on a GeneratedPdf
+   */
+  async getImageDownloads(pdf: GeneratedPdf): Promise<StoredImage[] | undefined> {
+    const images = pdf.metadata['images'] as GeneratedImage[] | undefined;
+    if (!images) {
+      return undefined;
+    }
+
+    return Promise.all(images.map(async (image) => ({
+      ...image,
+      downloadUrl: await s3Storage.generateDownloadUrl(image.s3Key),
+    })));
+  }
+
+  /**
+   * Create the GENERATING record for a new document
+   */
+  private async createRecord(input: GenerateAndStoreInput, mode: GenerationJobState['mode']): Promise<GeneratedPdf> {
+    const extension = input.raster ? PDFRasterizer.getFileExtension(input.raster.format) : 'pdf';
+    const fileName = input.fileName || this.buildFileName(input.template.name, extension);
+    const job: GenerationJobState = {
+      mode,
+      stage: 'QUEUED',
+      progress: 0,
+      queuedAt: new Date().toISOString(),
+    };
+
+    return this.generatedPdfsRepo.create({
+      id: input.id,
+      userId: input.userId,
+      templateId: input.template.id,
+      fileName,
+      s3Bucket: BUCKET_NAME,
+      s3Key: s3Storage.generateFileKey(input.userId, fileName, 'generated'),
+      fieldValues: input.fieldValues,
+      metadata: {
+        outputFormat: input.raster?.format || 'pdf',
+        ...(input.raster && { raster: input.raster }),
+        job,
+      },
+    });
+  }
+
+  /**
+   * Render the document, upload it and mark the record COMPLETED or FAILED
+   */
+  private async renderAndStore(
+    pdf: GeneratedPdf,
+    template: Template,
+    options?: PDFGenerationOptions,
+    raster?: RasterOptions
+  ): Promise<GenerateAndStoreResult> {
+    let current = await this.updateJob(pdf, {
+      stage: 'RENDERING',
+      progress: 10,
+      startedAt: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.generator.generatePDF({
+        templateId: template.id,
+        data: pdf.fieldValues,
+        userId: pdf.userId,
+        options: { ...options, outputFormat: 'buffer' },
+      });
+
+      if (!result.success || !result.pdfBuffer) {
+        const failedPdf = await this.updateJob(current, {
+          stage: 'FAILED',
+          completedAt: new Date().toISOString(),
+        }, {
+          status: 'FAILED',
+          metadata: { ...current.metadata, errors: this.serializeErrors(result.errors) },
+        });
+        return { pdf: failedPdf, result };
+      }
+
+      if (raster) {
+        return await this.rasterizeAndStore(current, template, result, raster);
+      }
+
+      current = await this.updateJob(current, { stage: 'UPLOADING', progress: 75 });
+
+      await s3Storage.uploadFile(pdf.s3Key, result.pdfBuffer, 'application/pdf', {
+        templateId: template.id,
+        pdfId: pdf.id,
+      });
+
+      const completedPdf = await this.updateJob(current, {
+        stage: 'COMPLETED',
+        progress: 100,
+        completedAt: new Date().toISOString(),
+      }, {
+        status: 'COMPLETED',
+        fileSize: result.metadata.fileSize,
+        metadata: {
+          ...current.metadata,
+          pageCount: result.metadata.pageCount,
+          processingTime: result.metadata.processingTime,
+          ...(result.metadata.encryption && { encryption: result.metadata.encryption }),
+          warnings: result.warnings || [],
+          errors: this.serializeErrors(result.errors),
+        },
+      });
+
+      const downloadUrl = await s3Storage.generateDownloadUrl(pdf.s3Key);
+
+      return { pdf: completedPdf, result, downloadUrl };
+    } catch (error) {
+      await this.markFailed(current, 'STORAGE_ERROR', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render the PDF pages to images and upload one object per page.
+   * A single image is stored at the record's key; multi-page output gets a -page-N suffix per image.
+   */
+  private async rasterizeAndStore(
+    pdf: GeneratedPdf,
+    template: Template,
+    result: PDFProcessingResult,
+    raster: RasterOptions
+  ): Promise<GenerateAndStoreResult> {
+    let current = await this.updateJob(pdf, { progress: 50 });
+
+    let pages: RasterizedPage[];
+    try {
+      pages = await pdfRasterizer.rasterize(result.pdfBuffer!, raster);
+    } catch (error) {
+      const failedPdf = await this.markFailed(current, 'RASTERIZE_ERROR', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        pdf: failedPdf,
+        result: {
+          ...result,
+          success: false,
+          errors: [...(result.errors || []), { code: 'RASTERIZE_ERROR', message, severity: 'error' }],
+        },
+      };
+    }
+
+    current = await this.updateJob(current, { stage: 'UPLOADING', progress: 75 });
+
+    const contentType = PDFRasterizer.getContentType(raster.format);
+    const images: GeneratedImage[] = [];
+    for (const page of pages) {
+      const s3Key = pages.length === 1
+        ? pdf.s3Key
+        : pdf.s3Key.replace(/(\.[^./]+)?$/, `-page-${page.pageNumber}$1`);
+
+      await s3Storage.uploadFile(s3Key, page.buffer, contentType, {
+        templateId: template.id,
+        pdfId: pdf.id,
+        page: String(page.pageNumber),
+      });
+
+      images.push({
+        page: page.pageNumber,
+        s3Key,
+        width: page.width,
+        height: page.height,
+        fileSize: page.buffer.length,
+      });
+    }
+
+    const completedPdf = await this.updateJob(current, {
+      stage: 'COMPLETED',
+      progress: 100,
+      completedAt: new Date().toISOString(),
+    }, {
+      status: 'COMPLETED',
+      // The record points at the first image so existing download paths keep working
+      s3Key: images[0]?.s3Key,
+      fileSize: images.reduce((total, image) => total + image.fileSize, 0),
+      metadata: {
+        ...current.metadata,
+        images,
+        pageCount: result.metadata.pageCount,
+        processingTime: result.metadata.processingTime,
+        warnings: result.warnings || [],
+        errors: this.serializeErrors(result.errors),
+      },
+    });
+
+    const storedImages = await this.getImageDownloads(completedPdf) || [];
+
+    return {
+      pdf: completedPdf,
+      result,
+      downloadUrl: storedImages[0]?.downloadUrl,
+      images: storedImages,
+    };
+  }
+
+  /**
+   * Merge job progress into the record metadata, together with any other updates
+   */
+  async updateJob(
+    pdf: GeneratedPdf,
+    job: Partial<GenerationJobState>,
+    input: UpdateGeneratedPdfInput = {}
+  ): Promise<GeneratedPdf> {
+    const metadata = input.metadata || pdf.metadata;
+    const updated = await this.generatedPdfsRepo.update(pdf.id, {
+      ...input,
+      metadata: { ...metadata, job: { ...pdf.metadata['job'] as Partial<GenerationJobState> | undefined, ...job } },
+    });
+
+    return updated || pdf;
+  }
+
+  /**
+   * Mark a record FAILED with a single error
+   */
+  async markFailed(pdf: GeneratedPdf, code: string, error: unknown): Promise<GeneratedPdf> {
+    return this.updateJob(pdf, {
+      stage: 'FAILED',
+      completedAt: new Date().toISOString(),
+    }, {
+      status: 'FAILED',
+      metadata: {
+        ...pdf.metadata,
+        errors: [{
+          code,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          severity: 'error',
+        }],
+      },
+    });
+  }
+
+  /**
+   * Strip non-serializable details before errors are persisted to DynamoDB
+   */
+  private serializeErrors(errors?: ProcessingError[]): Array<Omit<ProcessingError, 'details'>> {
+    return (errors || []).map(({ code, message, field, page, severity }) => ({
+      code,
+      message,
+      severity,
+      ...(field && { field }),
+      ...(page && { page }),
+    }));
+  }
+}
+
+// Export singleton instance
+export const generatedPdfService = new GeneratedPdfService();
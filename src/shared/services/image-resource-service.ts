@@ -0,0 +1,136 @@
+/**
+ * Image Resource Service
+ * Loads images for image fields and QR code logos from uploaded files, S3 keys or allow-listed URLs
+ */
+
+import { ImageSource } from '@/shared/pdf/types';
+import { PDFGenerationError } from '@/shared/pdf/utils';
+import { UploadedFileRepository } from '@/shared/database';
+import { s3Storage } from '@/shared/storage/s3-client';
+
+// Uploaded files are immutable, so a warm container keeps the most recent ones
+const MAX_CACHED_IMAGES = 20;
+
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 10000;
+
+// Comma-separated host names images may be downloaded from; "*.example.com" matches any subdomain
+const URL_ALLOWLIST = (process.env['IMAGE_URL_ALLOWLIST'] || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+export class ImageResourceService {
+  private uploadedFilesRepo = new UploadedFileRepository();
+  private bytesCache = new Map<string, Uint8Array>();
+
+  /**
+   * Load image bytes. When a user is given, uploaded files and S3 keys must belong to them;
+   * S3 keys can only be used on behalf of a user.
+   */
+  async load(source: ImageSource, userId?: string): Promise<Uint8Array> {
+    if ('fileId' in source) {
+      return this.loadUploadedFile(source.fileId, userId);
+    }
+
+    if ('s3Key' in source) {
+      if (!userId || !source.s3Key.startsWith(`users/${userId}/`)) {
+        throw new PDFGenerationError('Image S3 keys must be under your own files', 'IMAGE_NOT_ALLOWED', {
+          s3Key: source.s3Key,
+        });
+      }
+      return this.getFile(source.s3Key);
+    }
+
+    return this.download(source.url);
+  }
+
+  /**
+   * Whether a URL may be downloaded: HTTP(S) on a host in the allow-list
+   */
+  isAllowedUrl(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return false;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    return URL_ALLOWLIST.some(allowed =>
+      allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed
+    );
+  }
+
+  private async loadUploadedFile(fileId: string, userId?: string): Promise<Uint8Array> {
+    const cached = this.bytesCache.get(`file:${fileId}`);
+    const file = userId
+      ? await this.uploadedFilesRepo.findByUserAndId(userId, fileId)
+      : await this.uploadedFilesRepo.findById(fileId);
+    if (!file || file.uploadStatus === 'DELETED') {
+      throw new PDFGenerationError(`Image file not found: ${fileId}`, 'IMAGE_NOT_FOUND', { fileId });
+    }
+    if (cached) {
+      return cached;
+    }
+
+    const bytes = await this.getFile(file.s3Key, file.s3Bucket);
+    if (this.bytesCache.size >= MAX_CACHED_IMAGES) {
+      const oldestKey = this.bytesCache.keys().next().value;
+      if (oldestKey !== undefined) this.bytesCache.delete(oldestKey);
+    }
+    this.bytesCache.set(`file:${fileId}`, bytes);
+
+    return bytes;
+  }
+
+  private async getFile(key: string, bucket?: string): Promise<Uint8Array> {
+    try {
+      return await s3Storage.getFile(key, bucket);
+    } catch (error) {
+      throw new PDFGenerationError(`Image could not be read: ${key}`, 'IMAGE_NOT_FOUND', {
+        s3Key: key,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Download an image from an allow-listed URL. Redirects are refused so they cannot lead off the allow-list.
+   */
+  private async download(url: string): Promise<Uint8Array> {
+    if (!this.isAllowedUrl(url)) {
+      throw new PDFGenerationError('Image URL host is not allowed', 'IMAGE_NOT_ALLOWED', { url });
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    } catch (error) {
+      throw new PDFGenerationError('Image could not be downloaded', 'IMAGE_NOT_FOUND', {
+        url,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    if (!response.ok) {
+      throw new PDFGenerationError(`Image download failed with status ${response.status}`, 'IMAGE_NOT_FOUND', { url });
+    }
+    if (Number(response.headers.get('content-length') || 0) > MAX_DOWNLOAD_BYTES) {
+      throw new PDFGenerationError('Image is larger than 10 MB', 'IMAGE_TOO_LARGE', { url });
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > MAX_DOWNLOAD_BYTES) {
+      throw new PDFGenerationError('Image is larger than 10 MB', 'IMAGE_TOO_LARGE', { url });
+    }
+
+    return bytes;
+  }
+}
+
+// Export singleton instance
+export const imageResourceService = new ImageResourceService();
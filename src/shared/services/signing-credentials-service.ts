@@ -0,0 +1,77 @@
+/**
+ * Signing Credentials Service
+ * Loads the certificate and private key the service signs documents with
+ */
+
+import { SSMClient, GetParameterCommand, ParameterNotFound } from '@aws-sdk/client-ssm';
+import { SigningCredentials } from '@/shared/pdf/types';
+import { PDFGenerationError } from '@/shared/pdf/utils';
+import { s3Storage } from '@/shared/storage/s3-client';
+
+// A PKCS#12 file in the files bucket, or PEM text; PEM set through the environment may carry escaped newlines.
+// The PKCS#12 password is kept in an SSM SecureString parameter, never in the environment.
+const PKCS12_S3_KEY = process.env['PDF_SIGNING_PKCS12_S3_KEY'];
+const PKCS12_PASSWORD_PARAMETER = process.env['PDF_SIGNING_PKCS12_PASSWORD_PARAMETER'];
+const CERTIFICATE_PEM = process.env['PDF_SIGNING_CERTIFICATE_PEM']?.replace(/\\n/g, '\n');
+const PRIVATE_KEY_PEM = process.env['PDF_SIGNING_PRIVATE_KEY_PEM']?.replace(/\\n/g, '\n');
+const PRIVATE_KEY_PASSPHRASE = process.env['PDF_SIGNING_PRIVATE_KEY_PASSPHRASE'];
+
+export class SigningCredentialsService {
+  private credentials?: SigningCredentials;
+
+  /**
+   * Whether a certificate has been configured for signing
+   */
+  isConfigured(): boolean {
+    return !!PKCS12_S3_KEY || (!!CERTIFICATE_PEM && !!PRIVATE_KEY_PEM);
+  }
+
+  /**
+   * Load the configured credentials, once per container
+   */
+  async load(): Promise<SigningCredentials> {
+    if (this.credentials) {
+      return this.credentials;
+    }
+
+    if (PKCS12_S3_KEY) {
+      const [pkcs12, password] = await Promise.all([
+        s3Storage.getFile(PKCS12_S3_KEY),
+        this.getPkcs12Password(),
+      ]);
+      this.credentials = { pkcs12, password };
+    } else if (CERTIFICATE_PEM && PRIVATE_KEY_PEM) {
+      this.credentials = { certificate: CERTIFICATE_PEM, privateKey: PRIVATE_KEY_PEM, passphrase: PRIVATE_KEY_PASSPHRASE };
+    } else {
+      throw new PDFGenerationError('Digital signing is not configured', 'SIGNING_NOT_CONFIGURED');
+    }
+
+    return this.credentials;
+  }
+
+  /**
+   * Read the PKCS#12 password from SSM. Files without a password have no parameter.
+   */
+  private async getPkcs12Password(): Promise<string | undefined> {
+    if (!PKCS12_PASSWORD_PARAMETER) {
+      return undefined;
+    }
+
+    const ssm = new SSMClient({ region: process.env['REGION'] || 'us-east-1' });
+    try {
+      const response = await ssm.send(new GetParameterCommand({
+        Name: PKCS12_PASSWORD_PARAMETER,
+        WithDecryption: true,
+      }));
+      return response.Parameter?.Value;
+    } catch (error) {
+      if (error instanceof ParameterNotFound) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const signingCredentialsService = new SigningCredentialsService();
@@ -1,4 +1,7 @@
+import { Readable } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
 import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
 // Create S3 client
@@ -37,11 +40,11 @@ export class S3StorageService {
   }
 
   /**
-   * Get a file from S3
+   * Get a file from S3 (from another bucket when one is given)
    */
-  async getFile(key: string): Promise<Buffer> {
+  async getFile(key: string, bucket: string = this.bucketName): Promise<Buffer> {
     const command = new GetObjectCommand({
-      Bucket: this.bucketName,
+      Bucket: bucket,
       Key: key,
     });
 
@@ -63,6 +66,47 @@ export class S3StorageService {
     return Buffer.concat(chunks);
   }
 
+  /**
+   * Upload a stream to S3 in parts, so the object is never held in memory as a whole
+   */
+  async uploadStream(
+    key: string,
+    body: Readable,
+    contentType: string = 'application/octet-stream',
+    metadata?: Record<string, string>
+  ): Promise<string> {
+    const upload = new Upload({
+      client: s3Client,
+      params: {
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ...(metadata && { Metadata: metadata }),
+      },
+    });
+
+    await upload.done();
+
+    return `https://${this.bucketName}.s3.${process.env['REGION'] || 'us-east-1'}.amazonaws.com/${key}`;
+  }
+
+  /**
+   * Read a file from S3 as a stream
+   */
+  async getFileStream(key: string): Promise<Readable> {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error('File not found');
+    }
+
+    return Readable.fromWeb(response.Body.transformToWebStream() as WebReadableStream<Uint8Array>);
+  }
+
   /**
    * Delete a file from S3
    */
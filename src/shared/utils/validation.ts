@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ExpressionEvaluator } from '@/shared/pdf/expression';
+import { ComputedFields, ComputedDefinition } from '@/shared/pdf/computed';
 
 // Common validation schemas
 export const emailSchema = z.string().email('Invalid email format');
@@ -9,6 +11,11 @@ export const uuidSchema = z.string().uuid('Invalid UUID format');
 export const positionSchema = z.object({
   x: z.number().min(0, 'X position must be non-negative'),
   y: z.number().min(0, 'Y position must be non-negative'),
+  rotation: z.number().min(-360).max(360).optional(), // degrees, counter-clockwise
+  rotationOrigin: z.union([
+    z.enum(['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right']),
+    z.object({ x: z.number(), y: z.number() }),
+  ]).optional(),
 });
 
 export const sizeSchema = z.object({
@@ -31,7 +38,11 @@ export const fieldTypeSchema = z.enum([
   'table',
   'QRCode',
   'separator',
-  'label'
+  'label',
+  'barcode',
+  'radio',
+  'dropdown',
+  'computed'
 ]);
 
 // Field style validation
@@ -40,7 +51,23 @@ export const fieldStyleSchema = z.object({
   fontSize: z.number().min(1, 'Font size must be positive').optional(),
   textColor: z.string().regex(/^(#[0-9A-Fa-f]{6}|transparent)$/, 'Invalid color format').optional(),
   backgroundColor: z.string().regex(/^(#[0-9A-Fa-f]{6}|transparent)$/, 'Invalid color format').optional(),
-  textAlign: z.enum(['left', 'center', 'right']).optional(),
+  borderColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format').optional(),
+  textAlign: z.enum(['left', 'center', 'right', 'justify']).optional(),
+  verticalAlignment: z.enum(['top', 'middle', 'bottom']).optional(),
+  padding: z.union([
+    z.number().min(0),
+    z.object({
+      top: z.number().min(0),
+      right: z.number().min(0),
+      bottom: z.number().min(0),
+      left: z.number().min(0),
+    }),
+  ]).optional(),
+  lineHeight: z.number().positive().max(10).optional(),
+  letterSpacing: z.number().min(-10).max(100).optional(),
+  wordSpacing: z.number().min(-10).max(100).optional(),
+  overflow: z.enum(['shrink', 'truncate', 'overflow']).optional(),
+  minFontSize: z.number().min(1).optional(),
   bold: z.boolean().optional(),
   italic: z.boolean().optional(),
   underline: z.boolean().optional(),
@@ -49,6 +76,131 @@ export const fieldStyleSchema = z.object({
   opacity: z.number().min(0).max(1).optional(),
 });
 
+// Stored field styles carry a version. Before version 2 backgrounds were not drawn and new fields were saved
+// with a '#FFFFFF' background, so a white background on an older style means no background.
+export const FIELD_STYLE_VERSION = 2;
+
+/**
+ * The background colour a stored field style draws, if any
+ */
+export function getStoredBackgroundColor(style: Record<string, unknown>): string | undefined {
+  const color = style['backgroundColor'];
+  if (typeof color !== 'string' || !color || color === 'transparent') {
+    return undefined;
+  }
+
+  const version = typeof style['version'] === 'number' ? style['version'] : 1;
+  return version < FIELD_STYLE_VERSION && color.toUpperCase() === '#FFFFFF' ? undefined : color;
+}
+
+/**
+ * Bring a stored field style to the current version before it is saved again, keeping what it draws
+ */
+export function upgradeStoredStyle(style: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    ...style,
+    backgroundColor: getStoredBackgroundColor(style) ?? 'transparent',
+    version: FIELD_STYLE_VERSION,
+  };
+}
+
+// Barcode field settings, stored with the field properties
+export const barcodeConfigSchema = z.object({
+  symbology: z.enum(['code128', 'code39', 'ean13', 'upca', 'itf', 'pdf417', 'datamatrix']),
+  showText: z.boolean().optional(),
+  textSize: z.number().min(4).max(72).optional(),
+  checkDigit: z.boolean().optional(),
+});
+
+// Table field settings, stored with the field properties. Unknown keys are editor settings and are kept.
+export const tableConfigSchema = z.object({
+  columnWidths: z.array(z.number().positive()).optional(),
+  columnAlignments: z.array(z.enum(['left', 'center', 'right'])).optional(),
+  headerStyle: fieldStyleSchema.optional(),
+  rowStyle: fieldStyleSchema.optional(),
+  alternatingRowStyle: fieldStyleSchema.optional(),
+  footerStyle: fieldStyleSchema.optional(),
+  borderStyle: z.object({
+    width: z.number().min(0).max(20),
+    color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format'),
+    style: z.enum(['solid', 'dashed', 'dotted']).optional(),
+  }).optional(),
+  borders: z.enum(['all', 'horizontal', 'outer']).optional(),
+  cellPadding: z.number().min(0).max(50).optional(),
+  wrap: z.boolean().optional(),
+  totals: z.object({
+    columns: z.array(z.number().int().min(0)).min(1, 'At least one column to total is required'),
+    label: z.string().max(100).optional(),
+    labelColumn: z.number().int().min(0).optional(),
+    decimals: z.number().int().min(0).max(10).optional(),
+  }).optional(),
+  overflow: z.enum(['paginate', 'truncate']).optional(),
+  continuation: z.object({
+    page: z.number().int().min(1).optional(),
+    x: z.number().min(0).optional(),
+    y: z.number().min(0).optional(),
+    height: z.number().positive().optional(),
+    maxPages: z.number().int().min(1).max(100).optional(),
+  }).optional(),
+}).passthrough();
+
+// Image field settings, stored with the field properties
+export const imageConfigSchema = z.object({
+  aspectRatio: z.enum(['preserve', 'fit', 'fill']).optional(),
+});
+
+// Signature field settings, stored with the field properties
+export const signatureConfigSchema = z.object({
+  strokeWidth: z.number().min(0.1).max(20).optional(),
+  strokeColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format').optional(),
+});
+
+// Radio and dropdown field options, stored with the field properties. Radio fields with the same name form
+// a group: each lists the group's options and selects optionValue.
+export const choiceConfigSchema = z.object({
+  options: z.array(z.object({
+    value: z.string().min(1, 'Option value is required').max(200, 'Option value too long'),
+    label: z.string().max(200, 'Option label too long').optional(),
+  })).min(1, 'At least one option is required').max(100, 'Too many options')
+    .refine(options => new Set(options.map(option => option.value)).size === options.length, 'Option values must be unique'),
+  optionValue: z.string().optional(),
+}).refine(
+  config => config.optionValue === undefined || config.options.some(option => option.value === config.optionValue),
+  { message: 'optionValue must be one of the options', path: ['optionValue'] }
+);
+
+// QR code field settings, stored with the field properties
+export const qrCodeConfigSchema = z.object({
+  errorCorrectionLevel: z.enum(['L', 'M', 'Q', 'H']).optional(),
+  margin: z.number().int().min(0).max(20).optional(),
+  scale: z.number().positive().max(20).optional(),
+  foregroundColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format').optional(),
+  backgroundColor: z.string().regex(/^(#[0-9A-Fa-f]{6}|transparent)$/, 'Invalid color format').optional(),
+  logo: z.object({
+    fileId: uuidSchema,
+    size: z.number().min(0.05).max(0.3).optional(),
+  }).optional(),
+  payload: z.enum(['text', 'url', 'vcard', 'wifi', 'epc']).optional(),
+  utm: z.object({
+    source: z.string().max(100).optional(),
+    medium: z.string().max(100).optional(),
+    campaign: z.string().max(100).optional(),
+    term: z.string().max(100).optional(),
+    content: z.string().max(100).optional(),
+  }).optional(),
+});
+
+// Computed field settings, stored with the field properties. The value is an expression over the other data,
+// which may use other computed fields.
+export const computedConfigSchema = z.object({
+  expression: z.string().min(1, 'Expression is required').max(1000, 'Expression too long'),
+}).superRefine((config, ctx) => {
+  const error = ExpressionEvaluator.validate(config.expression);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['expression'] });
+  }
+});
+
 // Field layout validation
 export const fieldLayoutSchema = z.object({
   lockProportions: z.boolean(),
@@ -56,14 +208,23 @@ export const fieldLayoutSchema = z.object({
   snapToGrid: z.boolean(),
 }).partial();
 
-// Field advanced validation
+// Field advanced validation. Conditional fields are shown when their condition holds for the request data.
 export const fieldAdvancedSchema = z.object({
   placeholder: z.string(),
   required: z.boolean(),
   multiLine: z.boolean(),
   maxLength: z.number().min(0),
   visibility: z.enum(['always', 'conditional', 'hidden']),
-}).partial();
+  condition: z.string().max(1000, 'Condition too long'),
+}).partial().superRefine((advanced, ctx) => {
+  if (advanced.visibility === 'conditional' && !advanced.condition) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Conditional fields need a condition', path: ['condition'] });
+  }
+  const error = advanced.condition ? ExpressionEvaluator.validate(advanced.condition) : undefined;
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['condition'] });
+  }
+});
 
 // Field validation schema
 export const fieldValidationSchema = z.object({
@@ -85,6 +246,27 @@ export const confirmUploadSchema = z.object({
   fileId: uuidSchema,
 });
 
+// Custom font schemas (uploaded files, S3 keys under the user's prefix or bundled font files)
+export const fontVariantSchema = z.object({
+  weight: z.enum(['normal', 'bold']).default('normal'),
+  style: z.enum(['normal', 'italic']).default('normal'),
+  url: z.string().min(1).max(1024).optional(),
+  fileId: uuidSchema.optional(),
+});
+
+export const fontResourceSchema = z.object({
+  family: z.string().min(1, 'Font family is required').max(100, 'Font family too long'),
+  source: z.object({
+    type: z.enum(['s3', 'embedded']),
+    url: z.string().min(1).max(1024).optional(),
+    fallback: z.array(z.string()).max(5).optional(),
+  }).default({ type: 's3' }),
+  variants: z.array(fontVariantSchema).min(1, 'At least one font variant is required').max(4, 'Too many font variants'),
+}).refine(
+  (font) => font.variants.every(variant => variant.fileId || variant.url || font.source.url),
+  'Each font variant needs a fileId or url'
+);
+
 // Template schemas
 export const createTemplateSchema = z.object({
   name: z.string().min(1, 'Template name is required').max(100, 'Template name too long'),
@@ -98,6 +280,7 @@ export const createTemplateSchema = z.object({
   thumbnailUrl: z.string().url('Invalid thumbnail URL').optional(),
   isPublic: z.boolean().optional(),
   tags: z.array(z.string().min(1, 'Tag cannot be empty')).max(10, 'Too many tags').optional(),
+  fonts: z.array(fontResourceSchema).max(10, 'Too many fonts').optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -107,6 +290,7 @@ export const updateTemplateSchema = z.object({
   isPublic: z.boolean().optional(),
   tags: z.array(z.string().min(1, 'Tag cannot be empty')).max(10, 'Too many tags').optional(),
   thumbnailUrl: z.string().url('Invalid thumbnail URL').optional(),
+  fonts: z.array(fontResourceSchema).max(10, 'Too many fonts').optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -133,7 +317,15 @@ export const createFieldSchema = z.object({
   isRequired: z.boolean().optional(),
   isReadonly: z.boolean().optional(),
   order: z.number().min(0).optional(),
-  tableConfig: z.record(z.any()).optional(), // Allow table configuration for table fields
+  tableConfig: tableConfigSchema.optional(),
+  barcodeConfig: barcodeConfigSchema.optional(),
+  qrcodeConfig: qrCodeConfigSchema.optional(),
+  imageConfig: imageConfigSchema.optional(),
+  signatureConfig: signatureConfigSchema.optional(),
+  choiceConfig: choiceConfigSchema.optional(),
+  computedConfig: computedConfigSchema.optional(),
+  advanced: fieldAdvancedSchema.optional(),
+  text: z.string().max(5000, 'Text too long').optional(),
 });
 
 export const updateFieldSchema = z.object({
@@ -157,7 +349,15 @@ export const updateFieldSchema = z.object({
   isRequired: z.boolean().optional(),
   isReadonly: z.boolean().optional(),
   order: z.number().min(0).optional(),
-  tableConfig: z.record(z.any()).optional(), // Allow table configuration for table fields
+  tableConfig: tableConfigSchema.optional(),
+  barcodeConfig: barcodeConfigSchema.optional(),
+  qrcodeConfig: qrCodeConfigSchema.optional(),
+  imageConfig: imageConfigSchema.optional(),
+  signatureConfig: signatureConfigSchema.optional(),
+  choiceConfig: choiceConfigSchema.optional(),
+  computedConfig: computedConfigSchema.optional(),
+  advanced: fieldAdvancedSchema.optional(),
+  text: z.string().max(5000, 'Text too long').optional(),
 });
 
 export const updateFieldsOrderSchema = z.object({
@@ -172,6 +372,13 @@ export const generatePdfSchema = z.object({
   templateId: uuidSchema,
   fieldValues: z.record(z.string(), z.any()),
   outputFormat: z.enum(['pdf', 'png', 'jpeg']).default('pdf'),
+  // Raster settings, used when outputFormat is png or jpeg
+  imageOptions: z.object({
+    dpi: z.number().int().min(36, 'DPI must be at least 36').max(300, 'DPI must be at most 300').default(150),
+    page: z.number().int().min(1, 'Page numbers start at 1').optional(),
+    quality: z.number().int().min(1).max(100).default(85),
+  }).default({}),
+  mode: z.enum(['sync', 'async']).default('sync'),
 });
 
 /**
@@ -179,7 +386,7 @@ export const generatePdfSchema = z.object({
  */
 export function validateRequestBody<T>(
   body: string | object | null,
-  schema: z.ZodSchema<T>
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
 ): { success: true; data: T } | { success: false; error: string } {
   try {
     if (!body) {
@@ -213,6 +420,77 @@ export function validateRequestBody<T>(
   }
 }
 
+/**
+ * Check the options of a radio or dropdown field. Returns an error message, or undefined when the
+ * field is valid or is not a choice field.
+ */
+export function getChoiceConfigError(type: string | undefined, choiceConfig: unknown): string | undefined {
+  if (type !== 'radio' && type !== 'dropdown') {
+    return undefined;
+  }
+  if (!choiceConfig) {
+    return `${type === 'radio' ? 'Radio' : 'Dropdown'} fields need choiceConfig options`;
+  }
+
+  const result = choiceConfigSchema.safeParse(choiceConfig);
+  if (!result.success) {
+    return result.error.errors.map(err => `choiceConfig.${err.path.join('.')}: ${err.message}`).join(', ');
+  }
+  if (type === 'radio' && result.data.optionValue === undefined) {
+    return 'Radio fields need a choiceConfig.optionValue';
+  }
+  return undefined;
+}
+
+/**
+ * Check the expression of a computed field. Returns an error message, or undefined when the field is valid
+ * or is not a computed field.
+ */
+export function getComputedConfigError(type: string | undefined, computedConfig: unknown): string | undefined {
+  if (type !== 'computed') {
+    return undefined;
+  }
+  if (!computedConfig) {
+    return 'Computed fields need a computedConfig expression';
+  }
+
+  const result = computedConfigSchema.safeParse(computedConfig);
+  return result.success
+    ? undefined
+    : result.error.errors.map(err => `computedConfig.${err.path.join('.')}: ${err.message}`).join(', ');
+}
+
+/**
+ * Check that a template's computed fields, as they would be after a change, do not depend on each other
+ * in a cycle. Returns an error message naming the cycle, or undefined.
+ */
+export function getComputedCycleError(
+  fields: Array<{ name: string; type: string; properties?: Record<string, unknown> }>
+): string | undefined {
+  const definitions: ComputedDefinition[] = fields.flatMap(field => {
+    const expression = (field.properties?.['computedConfig'] as { expression?: unknown } | undefined)?.expression;
+    return field.type === 'computed' && typeof expression === 'string' ? [{ name: field.name, expression }] : [];
+  });
+
+  const cycle = ComputedFields.findCycle(definitions);
+  return cycle && `Computed fields depend on each other: ${cycle.join(' → ')}`;
+}
+
+/**
+ * Check a field's advanced settings, including that its condition parses. Returns an error message,
+ * or undefined when they are valid.
+ */
+export function getAdvancedSettingsError(advanced: unknown): string | undefined {
+  if (advanced === undefined) {
+    return undefined;
+  }
+
+  const result = fieldAdvancedSchema.safeParse(advanced);
+  return result.success
+    ? undefined
+    : result.error.errors.map(err => `advanced.${err.path.join('.')}: ${err.message}`).join(', ');
+}
+
 /**
  * Validate path parameters
  */
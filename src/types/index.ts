@@ -85,11 +85,17 @@ export type FieldType =
   | 'table' 
   | 'QRCode' 
   | 'separator' 
-  | 'label';
+  | 'label'
+  | 'barcode'
+  | 'radio'
+  | 'dropdown'
+  | 'computed';
 
 export interface Position {
   x: number;
   y: number;
+  rotation?: number; // degrees, counter-clockwise
+  rotationOrigin?: 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | { x: number; y: number };
 }
 
 export interface Size {
@@ -102,13 +108,77 @@ export interface FieldStyle {
   fontSize: number;
   textColor: string;
   backgroundColor: string;
-  textAlign: 'left' | 'center' | 'right';
+  borderColor?: string; // hex; setting it or lineThickness draws the field border
+  textAlign: 'left' | 'center' | 'right' | 'justify';
+  verticalAlignment?: 'top' | 'middle' | 'bottom';
+  padding?: number | { top: number; right: number; bottom: number; left: number };
+  lineHeight?: number; // multiple of the font size
+  letterSpacing?: number; // points
+  wordSpacing?: number; // points
+  overflow?: 'shrink' | 'truncate' | 'overflow';
+  minFontSize?: number;
   bold: boolean;
   italic: boolean;
   underline: boolean;
   lineThickness?: number;
   lineStyle?: 'solid' | 'dashed' | 'dotted';
   opacity?: number;
+  version?: number; // stored style version (FIELD_STYLE_VERSION)
+}
+
+export interface BarcodeConfig {
+  symbology: 'code128' | 'code39' | 'ean13' | 'upca' | 'itf' | 'pdf417' | 'datamatrix';
+  showText?: boolean;
+  textSize?: number;
+  checkDigit?: boolean; // Code 39 mod 43 check character
+}
+
+export interface TableConfig {
+  columnWidths?: number[]; // relative widths
+  columnAlignments?: Array<'left' | 'center' | 'right'>;
+  headerStyle?: Partial<FieldStyle>;
+  rowStyle?: Partial<FieldStyle>;
+  alternatingRowStyle?: Partial<FieldStyle>;
+  footerStyle?: Partial<FieldStyle>;
+  borderStyle?: { width: number; color: string; style?: 'solid' | 'dashed' | 'dotted' };
+  borders?: 'all' | 'horizontal' | 'outer';
+  cellPadding?: number;
+  wrap?: boolean;
+  totals?: { columns: number[]; label?: string; labelColumn?: number; decimals?: number };
+  overflow?: 'paginate' | 'truncate';
+  continuation?: { page?: number; x?: number; y?: number; height?: number; maxPages?: number };
+  [key: string]: unknown; // editor settings are stored alongside
+}
+
+export interface QRCodeConfig {
+  errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+  margin?: number; // quiet zone in modules
+  scale?: number; // points per module
+  foregroundColor?: string;
+  backgroundColor?: string; // hex or 'transparent'
+  logo?: { fileId: string; size?: number }; // forces error correction level H
+  payload?: 'text' | 'url' | 'vcard' | 'wifi' | 'epc';
+  utm?: { source?: string; medium?: string; campaign?: string; term?: string; content?: string };
+}
+
+export interface ImageConfig {
+  aspectRatio?: 'preserve' | 'fit' | 'fill';
+}
+
+export interface SignatureFieldConfig {
+  strokeWidth?: number; // points
+  strokeColor?: string; // hex
+}
+
+// Radio fields with the same name form a group; each lists the group's options
+export interface ChoiceConfig {
+  options: Array<{ value: string; label?: string }>;
+  optionValue?: string; // radio only: the option this button selects
+}
+
+// A computed field's value is an expression over the other data, e.g. addDays(issueDate, 30)
+export interface ComputedConfig {
+  expression: string;
 }
 
 export interface FieldLayout {
@@ -123,6 +193,7 @@ export interface FieldAdvanced {
   multiLine: boolean;
   maxLength: number;
   visibility: 'always' | 'conditional' | 'hidden';
+  condition?: string; // e.g. customer.type == "business" && total > 1000
 }
 
 export interface FieldValidation {
@@ -145,8 +216,8 @@ export interface Field {
   layout?: FieldLayout;
   advanced?: FieldAdvanced;
   validation?: FieldValidation;
-  text?: string;
-  tableConfig?: any;
+  text?: string; // static text with placeholders, e.g. "Dear {{customer.firstName}}"
+  tableConfig?: TableConfig;
   createdAt: string;
   updatedAt: string;
 }
@@ -187,7 +258,13 @@ export interface CreateFieldRequest {
   advanced?: FieldAdvanced;
   validation?: FieldValidation;
   text?: string;
-  tableConfig?: any;
+  tableConfig?: TableConfig;
+  barcodeConfig?: BarcodeConfig;
+  qrcodeConfig?: QRCodeConfig;
+  imageConfig?: ImageConfig;
+  signatureConfig?: SignatureFieldConfig;
+  choiceConfig?: ChoiceConfig;
+  computedConfig?: ComputedConfig;
 }
 
 export interface UpdateFieldRequest {
@@ -203,7 +280,13 @@ export interface UpdateFieldRequest {
   advanced?: FieldAdvanced;
   validation?: FieldValidation;
   text?: string;
-  tableConfig?: any;
+  tableConfig?: TableConfig;
+  barcodeConfig?: BarcodeConfig;
+  qrcodeConfig?: QRCodeConfig;
+  imageConfig?: ImageConfig;
+  signatureConfig?: SignatureFieldConfig;
+  choiceConfig?: ChoiceConfig;
+  computedConfig?: ComputedConfig;
 }
 
 // Authentication types